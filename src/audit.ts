@@ -0,0 +1,135 @@
+import {
+  restoreBlock,
+  restoreFromTrash,
+  restoreProperties,
+  revertDatabaseSchema,
+  type NotionCache,
+  type TrashTarget,
+} from "./notion";
+
+// Audit log of mutating tool calls, kept in the NotionMCP Durable Object's SQLite storage.
+// Each entry holds the arguments, what the target looked like before and the result, so
+// list-changes can show what an agent did and undo-change can put it back.
+
+/** Oldest entries beyond this are pruned. */
+const MAX_AUDIT_ENTRIES = 1000;
+
+/** State needed to reverse a change, by what the tool touched. */
+export type AuditBefore =
+  | { kind: "properties"; pages: Array<{ page_id: string; properties: Record<string, any> }> }
+  | { kind: "block"; block: any }
+  | { kind: "trash"; target: TrashTarget; snapshot?: any }
+  | { kind: "schema"; data_source_id: string; data_source: any; keys: string[]; title: boolean };
+
+export type AuditStatus = "applied" | "failed" | "undone";
+
+export interface AuditEntry {
+  id: number;
+  tool: string;
+  args: any;
+  before: AuditBefore;
+  result: any;
+  status: AuditStatus;
+  created_at: string;
+  undone_at: string | null;
+}
+
+export function createAuditStore(sql: SqlStorage) {
+  sql.exec(`CREATE TABLE IF NOT EXISTS notion_audit (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    tool TEXT NOT NULL,
+    args TEXT NOT NULL,
+    before TEXT NOT NULL,
+    result TEXT,
+    status TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    undone_at TEXT
+  )`);
+
+  const toEntry = (row: any): AuditEntry => ({
+    id: row.id,
+    tool: row.tool,
+    args: JSON.parse(row.args),
+    before: JSON.parse(row.before),
+    result: row.result === null ? null : JSON.parse(row.result),
+    status: row.status,
+    created_at: row.created_at,
+    undone_at: row.undone_at,
+  });
+
+  return {
+    record(entry: { tool: string; args: any; before: AuditBefore; result: any; status: AuditStatus }): number {
+      const row = sql
+        .exec<{ id: number }>(
+          "INSERT INTO notion_audit (tool, args, before, result, status, created_at) VALUES (?, ?, ?, ?, ?, ?) RETURNING id",
+          entry.tool,
+          JSON.stringify(entry.args),
+          JSON.stringify(entry.before),
+          JSON.stringify(entry.result ?? null),
+          entry.status,
+          new Date().toISOString(),
+        )
+        .one();
+      sql.exec("DELETE FROM notion_audit WHERE id <= ?", row.id - MAX_AUDIT_ENTRIES);
+      return row.id;
+    },
+
+    list(opts: { limit: number; tool?: string }): AuditEntry[] {
+      const rows = opts.tool
+        ? sql.exec<any>("SELECT * FROM notion_audit WHERE tool = ? ORDER BY id DESC LIMIT ?", opts.tool, opts.limit)
+        : sql.exec<any>("SELECT * FROM notion_audit ORDER BY id DESC LIMIT ?", opts.limit);
+      return rows.toArray().map(toEntry);
+    },
+
+    get(id: number): AuditEntry | undefined {
+      const [row] = sql.exec<any>("SELECT * FROM notion_audit WHERE id = ?", id).toArray();
+      return row ? toEntry(row) : undefined;
+    },
+
+    markUndone(id: number) {
+      sql.exec("UPDATE notion_audit SET status = 'undone', undone_at = ? WHERE id = ?", new Date().toISOString(), id);
+    },
+  };
+}
+
+export type AuditStore = ReturnType<typeof createAuditStore>;
+
+/** IDs of the pages, blocks or databases an entry touched, for listing. */
+export function auditTargets(before: AuditBefore): string[] {
+  switch (before.kind) {
+    case "properties":
+      return before.pages.map((p) => p.page_id);
+    case "block":
+      return [before.block.id];
+    case "trash":
+      return [before.target.id];
+    case "schema":
+      return [before.data_source_id];
+  }
+}
+
+/**
+ * Restores the state recorded before a change. Later edits to the same properties, block
+ * or columns are overwritten. Returns what each restore call returned.
+ */
+export async function undoChange(token: string, entry: AuditEntry, cache?: NotionCache): Promise<any> {
+  if (entry.status === "undone") throw new Error(`Change ${entry.id} was already undone at ${entry.undone_at}.`);
+  if (entry.status === "failed") throw new Error(`Change ${entry.id} failed, so there is nothing to undo.`);
+
+  const before = entry.before;
+  switch (before.kind) {
+    case "properties": {
+      const restored = [];
+      for (const page of before.pages) {
+        restored.push(await restoreProperties(token, page.page_id, page.properties));
+      }
+      return restored;
+    }
+    case "block":
+      return restoreBlock(token, before.block);
+    case "trash":
+      return restoreFromTrash(token, before.target);
+    case "schema":
+      return revertDatabaseSchema(token, before.data_source_id, before.data_source, { keys: before.keys, title: before.title }, cache);
+  }
+}
@@ -0,0 +1,47 @@
+import type { NotionCache } from "./notion";
+
+/**
+ * NotionCache backed by the NotionMCP Durable Object's SQLite storage, so cached
+ * lookups survive across tool calls and hibernation. Values are stored as JSON;
+ * expired rows are ignored on read and pruned on write. Keys are prefixed with the
+ * workspace ID so a re-authorized session never sees another workspace's entries.
+ */
+export function createSqlCache(sql: SqlStorage, workspaceId: string): NotionCache {
+  sql.exec(`CREATE TABLE IF NOT EXISTS notion_cache (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL,
+    expires_at INTEGER
+  )`);
+
+  const scoped = (key: string) => `${workspaceId}:${key}`;
+
+  return {
+    get<T>(key: string): T | undefined {
+      const [row] = sql
+        .exec<{ value: string; expires_at: number | null }>(
+          "SELECT value, expires_at FROM notion_cache WHERE key = ?",
+          scoped(key),
+        )
+        .toArray();
+      if (!row) return undefined;
+      if (row.expires_at !== null && row.expires_at <= Date.now()) return undefined;
+      return JSON.parse(row.value) as T;
+    },
+
+    put(key: string, value: unknown, ttlSeconds?: number) {
+      const now = Date.now();
+      const expiresAt = ttlSeconds === undefined ? null : now + ttlSeconds * 1000;
+      sql.exec("DELETE FROM notion_cache WHERE expires_at IS NOT NULL AND expires_at <= ?", now);
+      sql.exec(
+        "INSERT OR REPLACE INTO notion_cache (key, value, expires_at) VALUES (?, ?, ?)",
+        scoped(key),
+        JSON.stringify(value),
+        expiresAt,
+      );
+    },
+
+    delete(key: string) {
+      sql.exec("DELETE FROM notion_cache WHERE key = ?", scoped(key));
+    },
+  };
+}
@@ -0,0 +1,93 @@
+// CSV and JSON Lines rendering of flattened query results for export-database, and
+// CSV parsing for import-csv.
+
+export type ExportFormat = "csv" | "jsonl";
+
+export interface ExportRow {
+  id: string;
+  url?: string;
+  created_time?: string;
+  last_edited_time?: string;
+  properties: Record<string, any>;
+}
+
+/** Page fields that can be exported alongside the properties. */
+export const PAGE_COLUMNS = ["id", "url", "created_time", "last_edited_time"] as const;
+
+function columnValue(row: ExportRow, column: string): any {
+  if (column in row.properties) return row.properties[column];
+  return (PAGE_COLUMNS as readonly string[]).includes(column) ? (row as any)[column] : null;
+}
+
+// Dates become ISO intervals ("start/end"), which create-database-item and import-csv read back.
+function toCell(value: any, delimiter: string): string {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) return value.map((v) => toCell(v, delimiter)).join(delimiter);
+  if (typeof value === "object" && "start" in value) return value.end ? `${value.start}/${value.end}` : (value.start ?? "");
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function escapeCsv(cell: string): string {
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+/** CSV per RFC 4180, header row first unless `header` is false (continuation chunks). */
+export function toCsv(rows: ExportRow[], columns: string[], delimiter: string, header = true): string {
+  const lines = rows.map((row) => columns.map((c) => escapeCsv(toCell(columnValue(row, c), delimiter))).join(","));
+  if (header) lines.unshift(columns.map(escapeCsv).join(","));
+  return lines.length > 0 ? `${lines.join("\r\n")}\r\n` : "";
+}
+
+/** One JSON object per row with the selected columns in order; multi-value cells stay arrays. */
+export function toJsonl(rows: ExportRow[], columns: string[]): string {
+  return rows
+    .map((row) => JSON.stringify(Object.fromEntries(columns.map((c) => [c, columnValue(row, c) ?? null]))) + "\n")
+    .join("");
+}
+
+/**
+ * Parses RFC 4180 CSV (quoted cells may hold commas, quotes and line breaks) into rows
+ * of cells. A leading byte order mark and blank lines are ignored.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.length > 1 || row[0] !== "") rows.push(row);
+    row = [];
+    cell = "";
+  };
+
+  for (; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"' && cell === "") {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      cell += ch;
+    }
+  }
+  if (quoted) throw new Error("CSV ends inside a quoted cell; check for an unbalanced quote");
+  if (cell !== "" || row.length > 0) endRow();
+  return rows;
+}
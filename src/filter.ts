@@ -0,0 +1,463 @@
+// Compact filter expressions for query-database, compiled to Notion filter objects.
+//
+//   Status = "Done" AND (Score > 50 OR Tags contains "Urgent") AND Due before 2026-11-01
+//
+// Property names are bare words or quoted ("Due Date", `Due Date`); values are quoted
+// strings, numbers, true/false or ISO dates. Expressions are parsed first, then checked
+// against the data source schema, so mistakes are reported before anything is queried.
+import type { SchemaProperty } from "./notion";
+
+export class FilterSyntaxError extends Error {
+  constructor(message: string, public position: number) {
+    super(`${message} (at position ${position + 1})`);
+    this.name = "FilterSyntaxError";
+  }
+}
+
+// ── Tokens ──
+
+type Token =
+  | { kind: "word"; value: string; pos: number }
+  | { kind: "string"; value: string; pos: number; quote: string }
+  | { kind: "number"; value: number; pos: number }
+  | { kind: "symbol"; value: string; pos: number }
+  | { kind: "end"; pos: number };
+
+const SYMBOLS = ["==", "!=", "<>", ">=", "<=", "=", ">", "<", "(", ")"];
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'" || ch === "`") {
+      let value = "";
+      let j = i + 1;
+      while (j < input.length && input[j] !== ch) {
+        if (input[j] === "\\" && j + 1 < input.length) j++;
+        value += input[j++];
+      }
+      if (j >= input.length) throw new FilterSyntaxError(`Unterminated ${ch} string`, i);
+      tokens.push({ kind: "string", value, pos: i, quote: ch });
+      i = j + 1;
+      continue;
+    }
+
+    const symbol = SYMBOLS.find((s) => input.startsWith(s, i));
+    if (symbol) {
+      tokens.push({ kind: "symbol", value: symbol, pos: i });
+      i += symbol.length;
+      continue;
+    }
+
+    // Dates and datetimes stay words so they aren't read as arithmetic.
+    const date = input.slice(i).match(/^\d{4}-\d{2}-\d{2}(?:T[\d:.]+(?:Z|[+-]\d{2}:?\d{2})?)?/);
+    if (date) {
+      tokens.push({ kind: "word", value: date[0], pos: i });
+      i += date[0].length;
+      continue;
+    }
+
+    const number = input.slice(i).match(/^-?\d+(?:\.\d+)?/);
+    if (number) {
+      tokens.push({ kind: "number", value: Number(number[0]), pos: i });
+      i += number[0].length;
+      continue;
+    }
+
+    const word = input.slice(i).match(/^[^\s()=!<>"'`]+/);
+    if (!word) throw new FilterSyntaxError(`Unexpected character "${ch}"`, i);
+    tokens.push({ kind: "word", value: word[0], pos: i });
+    i += word[0].length;
+  }
+
+  tokens.push({ kind: "end", pos: input.length });
+  return tokens;
+}
+
+// ── Syntax tree ──
+
+export type Operator =
+  | "equals"
+  | "does_not_equal"
+  | "greater_than"
+  | "less_than"
+  | "greater_than_or_equal_to"
+  | "less_than_or_equal_to"
+  | "contains"
+  | "does_not_contain"
+  | "starts_with"
+  | "ends_with"
+  | "is_empty"
+  | "is_not_empty"
+  | "before"
+  | "after"
+  | "on_or_before"
+  | "on_or_after"
+  | "past_week"
+  | "past_month"
+  | "past_year"
+  | "this_week"
+  | "next_week"
+  | "next_month"
+  | "next_year";
+
+export type FilterNode =
+  | { kind: "and" | "or"; children: FilterNode[] }
+  | { kind: "condition"; property: string; operator: Operator; value?: string | number | boolean; pos: number };
+
+// Multi-word operators, longest first so "is not empty" wins over "is".
+const WORD_OPERATORS: Array<[string[], Operator]> = [
+  [["does", "not", "contain"], "does_not_contain"],
+  [["not", "contains"], "does_not_contain"],
+  [["not", "contain"], "does_not_contain"],
+  [["is", "not", "empty"], "is_not_empty"],
+  [["is", "empty"], "is_empty"],
+  [["starts", "with"], "starts_with"],
+  [["ends", "with"], "ends_with"],
+  [["on", "or", "before"], "on_or_before"],
+  [["on", "or", "after"], "on_or_after"],
+  [["contains"], "contains"],
+  [["contain"], "contains"],
+  [["before"], "before"],
+  [["after"], "after"],
+  [["is"], "equals"],
+];
+
+const SYMBOL_OPERATORS: Record<string, Operator> = {
+  "=": "equals",
+  "==": "equals",
+  "!=": "does_not_equal",
+  "<>": "does_not_equal",
+  ">": "greater_than",
+  "<": "less_than",
+  ">=": "greater_than_or_equal_to",
+  "<=": "less_than_or_equal_to",
+};
+
+const RELATIVE_DATES = new Set(["past_week", "past_month", "past_year", "this_week", "next_week", "next_month", "next_year"]);
+const VALUELESS_OPERATORS = new Set<Operator>(["is_empty", "is_not_empty", ...(RELATIVE_DATES as Set<Operator>)]);
+
+class Parser {
+  private i = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): FilterNode {
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next.kind !== "end") throw new FilterSyntaxError(`Unexpected "${this.text(next)}"; expected AND, OR or end of expression`, next.pos);
+    return node;
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.i + offset, this.tokens.length - 1)];
+  }
+
+  private text(token: Token): string {
+    return token.kind === "end" ? "end of expression" : String(token.value);
+  }
+
+  private isKeyword(token: Token, keyword: string): boolean {
+    return token.kind === "word" && token.value.toLowerCase() === keyword;
+  }
+
+  private parseOr(): FilterNode {
+    const children = [this.parseAnd()];
+    while (this.isKeyword(this.peek(), "or")) {
+      this.i++;
+      children.push(this.parseAnd());
+    }
+    return children.length === 1 ? children[0] : { kind: "or", children };
+  }
+
+  private parseAnd(): FilterNode {
+    const children = [this.parsePrimary()];
+    while (this.isKeyword(this.peek(), "and")) {
+      this.i++;
+      children.push(this.parsePrimary());
+    }
+    return children.length === 1 ? children[0] : { kind: "and", children };
+  }
+
+  private isSymbol(token: Token, symbol: string): boolean {
+    return token.kind === "symbol" && token.value === symbol;
+  }
+
+  private parsePrimary(): FilterNode {
+    const token = this.peek();
+    if (this.isSymbol(token, "(")) {
+      this.i++;
+      const node = this.parseOr();
+      const close = this.peek();
+      if (!this.isSymbol(close, ")")) throw new FilterSyntaxError(`Expected ")" but found "${this.text(close)}"`, close.pos);
+      this.i++;
+      return node;
+    }
+    return this.parseCondition();
+  }
+
+  private parseCondition(): FilterNode {
+    const start = this.peek();
+    if (start.kind === "end") throw new FilterSyntaxError("Expected a property name but the expression ended", start.pos);
+    if (start.kind !== "word" && start.kind !== "string") {
+      throw new FilterSyntaxError(`Expected a property name but found "${this.text(start)}"`, start.pos);
+    }
+    this.i++;
+    const property = String(start.value);
+
+    const operator = this.parseOperator(property);
+    if (VALUELESS_OPERATORS.has(operator)) return { kind: "condition", property, operator, pos: start.pos };
+
+    const valueToken = this.peek();
+    let value: string | number | boolean;
+    if (valueToken.kind === "string" || valueToken.kind === "number") {
+      value = valueToken.value;
+    } else if (valueToken.kind === "word" && !["and", "or"].includes(valueToken.value.toLowerCase())) {
+      const lower = valueToken.value.toLowerCase();
+      value = lower === "true" ? true : lower === "false" ? false : valueToken.value;
+    } else {
+      throw new FilterSyntaxError(`Expected a value after "${property} ${OPERATOR_SYNTAX[operator]}" but found "${this.text(valueToken)}"`, valueToken.pos);
+    }
+    this.i++;
+    return { kind: "condition", property, operator, value, pos: start.pos };
+  }
+
+  private parseOperator(property: string): Operator {
+    const token = this.peek();
+    if (token.kind === "symbol" && SYMBOL_OPERATORS[token.value]) {
+      this.i++;
+      return SYMBOL_OPERATORS[token.value];
+    }
+
+    for (const [words, operator] of WORD_OPERATORS) {
+      if (words.every((w, k) => this.isKeyword(this.peek(k), w))) {
+        this.i += words.length;
+        return operator;
+      }
+    }
+
+    // Relative dates: `Due in past_week`, `Due past_week`.
+    const relativeAt = this.isKeyword(token, "in") ? 1 : 0;
+    const relative = this.peek(relativeAt);
+    if (relative.kind === "word" && RELATIVE_DATES.has(relative.value.toLowerCase())) {
+      this.i += relativeAt + 1;
+      return relative.value.toLowerCase() as Operator;
+    }
+
+    throw new FilterSyntaxError(
+      `Expected an operator after "${property}" but found "${this.text(token)}". Operators: =, !=, >, <, >=, <=, contains, not contains, starts with, ends with, before, after, on or before, on or after, is empty, is not empty, in past_week|past_month|past_year|this_week|next_week|next_month|next_year`,
+      token.pos,
+    );
+  }
+}
+
+export function parseWhere(input: string): FilterNode {
+  return new Parser(tokenize(input)).parse();
+}
+
+// ── Type checking & compilation ──
+
+const TEXT_OPERATORS: Operator[] = ["equals", "does_not_equal", "contains", "does_not_contain", "starts_with", "ends_with", "is_empty", "is_not_empty"];
+const NUMBER_OPERATORS: Operator[] = ["equals", "does_not_equal", "greater_than", "less_than", "greater_than_or_equal_to", "less_than_or_equal_to", "is_empty", "is_not_empty"];
+const DATE_OPERATORS: Operator[] = ["equals", "before", "after", "on_or_before", "on_or_after", "is_empty", "is_not_empty", ...(RELATIVE_DATES as Set<Operator>)];
+const LIST_OPERATORS: Operator[] = ["contains", "does_not_contain", "is_empty", "is_not_empty"];
+
+const OPERATORS_BY_TYPE: Record<string, Operator[]> = {
+  title: TEXT_OPERATORS,
+  rich_text: TEXT_OPERATORS,
+  url: TEXT_OPERATORS,
+  email: TEXT_OPERATORS,
+  phone_number: TEXT_OPERATORS,
+  number: NUMBER_OPERATORS,
+  unique_id: NUMBER_OPERATORS.filter((op) => op !== "is_empty" && op !== "is_not_empty"),
+  checkbox: ["equals", "does_not_equal"],
+  select: ["equals", "does_not_equal", "is_empty", "is_not_empty"],
+  status: ["equals", "does_not_equal", "is_empty", "is_not_empty"],
+  multi_select: LIST_OPERATORS,
+  people: LIST_OPERATORS,
+  created_by: LIST_OPERATORS,
+  last_edited_by: LIST_OPERATORS,
+  relation: LIST_OPERATORS,
+  files: ["is_empty", "is_not_empty"],
+  date: DATE_OPERATORS,
+  created_time: DATE_OPERATORS,
+  last_edited_time: DATE_OPERATORS,
+};
+
+// Comparison symbols read naturally on dates too: Due < 2026-01-01.
+const DATE_ALIASES: Partial<Record<Operator, Operator>> = {
+  less_than: "before",
+  greater_than: "after",
+  less_than_or_equal_to: "on_or_before",
+  greater_than_or_equal_to: "on_or_after",
+};
+
+const TIMESTAMPS = new Set(["created_time", "last_edited_time"]);
+
+// Notion accepts compound filters nested at most two levels below the top-level one.
+const MAX_FILTER_DEPTH = 2;
+
+export interface CompileContext {
+  /**
+   * Turns a people/relation value (name, email, URL) into an ID; defaults to identity.
+   * A thrown error is reported with the expression's other errors.
+   */
+  resolveId?: (type: string, value: string) => string | Promise<string>;
+}
+
+// How operators are written in where expressions, for error messages.
+const OPERATOR_SYNTAX: Record<Operator, string> = {
+  equals: "=",
+  does_not_equal: "!=",
+  greater_than: ">",
+  less_than: "<",
+  greater_than_or_equal_to: ">=",
+  less_than_or_equal_to: "<=",
+  contains: "contains",
+  does_not_contain: "not contains",
+  starts_with: "starts with",
+  ends_with: "ends with",
+  is_empty: "is empty",
+  is_not_empty: "is not empty",
+  before: "before",
+  after: "after",
+  on_or_before: "on or before",
+  on_or_after: "on or after",
+  past_week: "in past_week",
+  past_month: "in past_month",
+  past_year: "in past_year",
+  this_week: "in this_week",
+  next_week: "in next_week",
+  next_month: "in next_month",
+  next_year: "in next_year",
+};
+
+function describeOperators(ops: Operator[]): string {
+  return ops.map((op) => OPERATOR_SYNTAX[op]).join(", ");
+}
+
+async function compileCondition(
+  node: Extract<FilterNode, { kind: "condition" }>,
+  properties: Map<string, SchemaProperty>,
+  ctx: CompileContext,
+  errors: string[],
+): Promise<any> {
+  let prop = properties.get(node.property);
+  let timestamp = false;
+  if (!prop && TIMESTAMPS.has(node.property)) {
+    prop = { name: node.property, type: node.property };
+    timestamp = true;
+  }
+  if (!prop) {
+    const lower = [...properties.keys()].find((name) => name.toLowerCase() === node.property.toLowerCase());
+    errors.push(
+      `Unknown property "${node.property}" (at position ${node.pos + 1}).${lower ? ` Did you mean "${lower}"? Names are case-sensitive.` : ""} Valid properties: ${[...properties.keys()].join(", ")}${properties.has("created_time") ? "" : ", created_time, last_edited_time"}`,
+    );
+    return undefined;
+  }
+
+  const allowed = OPERATORS_BY_TYPE[prop.type];
+  if (!allowed) {
+    errors.push(`Property "${prop.name}" has type ${prop.type}, which where expressions can't filter on; use the filter parameter instead.`);
+    return undefined;
+  }
+
+  const operator = (allowed.includes(node.operator) ? node.operator : DATE_ALIASES[node.operator]) ?? node.operator;
+  if (!allowed.includes(operator)) {
+    errors.push(`Operator "${OPERATOR_SYNTAX[node.operator]}" isn't valid for "${prop.name}" (${prop.type}). Valid operators: ${describeOperators(allowed)}`);
+    return undefined;
+  }
+
+  let value: any = VALUELESS_OPERATORS.has(operator) ? (RELATIVE_DATES.has(operator) ? {} : true) : node.value;
+  if (!VALUELESS_OPERATORS.has(operator)) {
+    switch (prop.type) {
+      case "number":
+      case "unique_id":
+        if (typeof value !== "number") {
+          errors.push(`"${prop.name}" is a ${prop.type} property; expected a number but got ${JSON.stringify(value)}`);
+          return undefined;
+        }
+        break;
+      case "checkbox":
+        if (typeof value !== "boolean") {
+          errors.push(`"${prop.name}" is a checkbox; expected true or false but got ${JSON.stringify(value)}`);
+          return undefined;
+        }
+        break;
+      case "date":
+      case "created_time":
+      case "last_edited_time":
+        if (typeof value !== "string" || Number.isNaN(Date.parse(value))) {
+          errors.push(`"${prop.name}" is a date; expected an ISO 8601 date like 2026-11-01 but got ${JSON.stringify(value)}`);
+          return undefined;
+        }
+        break;
+      case "select":
+      case "status":
+      case "multi_select":
+        value = String(value);
+        if (prop.options && !prop.options.includes(value)) {
+          errors.push(`"${value}" is not an option of "${prop.name}" (${prop.type}). Options: ${prop.options.join(", ")}`);
+          return undefined;
+        }
+        break;
+      case "people":
+      case "created_by":
+      case "last_edited_by":
+      case "relation":
+        try {
+          value = ctx.resolveId ? await ctx.resolveId(prop.type, String(value)) : String(value);
+        } catch (err) {
+          errors.push(`"${prop.name}": ${err instanceof Error ? err.message : String(err)}`);
+          return undefined;
+        }
+        break;
+      default:
+        value = String(value);
+    }
+  }
+
+  if (timestamp) return { timestamp: prop.type, [prop.type]: { [operator]: value } };
+  return { property: prop.name, [prop.type]: { [operator]: value } };
+}
+
+async function compileNode(
+  node: FilterNode,
+  properties: Map<string, SchemaProperty>,
+  ctx: CompileContext,
+  errors: string[],
+  depth: number,
+): Promise<any> {
+  if (node.kind === "condition") return compileCondition(node, properties, ctx, errors);
+  if (depth > MAX_FILTER_DEPTH) {
+    errors.push(`Filters can nest AND/OR groups at most ${MAX_FILTER_DEPTH} levels deep; simplify the parentheses.`);
+    return undefined;
+  }
+  // Chains of the same operator flatten into one group (a AND (b AND c) → and[a, b, c]).
+  const children = node.children.flatMap((child) =>
+    child.kind === node.kind ? child.children : [child],
+  );
+  const compiled = [];
+  for (const child of children) compiled.push(await compileNode(child, properties, ctx, errors, depth + 1));
+  return { [node.kind]: compiled };
+}
+
+/**
+ * Parses a where expression and compiles it against the data source's properties into a
+ * Notion filter object. All type errors are collected and thrown together.
+ */
+export async function compileWhere(input: string, schema: SchemaProperty[], ctx: CompileContext = {}): Promise<any> {
+  const tree = parseWhere(input);
+  const properties = new Map(schema.map((p) => [p.name, p]));
+  const errors: string[] = [];
+  const filter = await compileNode(tree, properties, ctx, errors, 0);
+  if (errors.length > 0) throw new Error(`Invalid where expression:\n${errors.join("\n")}`);
+  return filter;
+}
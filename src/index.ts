@@ -1,29 +1,98 @@
-import OAuthProvider from "@cloudflare/workers-oauth-provider";
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { env } from "cloudflare:workers";
+import OAuthProvider, { GrantType } from "@cloudflare/workers-oauth-provider";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { CallToolResult, GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
 import { McpAgent } from "agents/mcp";
 import { z } from "zod";
+import { auditTargets, createAuditStore, undoChange, type AuditBefore } from "./audit";
+import { createSqlCache } from "./cache";
+import { ALL_SCOPES, toolScope, type Scope } from "./scopes";
+import { compileWhere, parseWhere } from "./filter";
+import { markdownToBlocks } from "./markdown";
 import { NotionHandler } from "./notion-handler";
-import type { Props } from "./utils";
+import { loadRefreshedCredentials, refreshGrantProps, refreshNotionToken, saveRefreshedCredentials, type Props } from "./utils";
+import { eventTarget, handleNotionWebhook, recentChanges } from "./webhooks";
+import { createWatchStore, isEmptyDiff, pollTarget, snapshotTarget, summarizeDiff, type Watch, type WatchKind } from "./watch";
 import {
   listDatabases,
+  searchWorkspace,
   getDatabaseSchema,
   queryDatabase,
+  exportDatabase,
+  importCsv,
   getPage,
-  getPageBlocks,
+  getPageContent,
+  getPageMarkdown,
   appendBlockChildren,
   updateBlock,
+  updateBlockFromMarkdown,
   deleteBlock,
+  listComments,
+  addComment,
+  listUsers,
+  getSelf,
   updateDatabase,
   createDatabase,
   archiveDatabase,
   createPage,
   updatePage,
+  preparePropertyValues,
+  resolvePeople,
   batchUpdatePages,
   archivePage,
+  getRawPage,
+  getRawBlock,
+  getRawDataSource,
+  pickProperties,
+  rememberParent,
+  duplicatePage,
+  resolvePageParent,
+  uploadFile,
   normalizeId,
   formatId,
+  NotionApiError,
+  ReauthorizationRequiredError,
+  registerTokenRefresh,
+  resolveDataSourceId,
+  resolveDatabaseTarget,
+  withIdKindCheck,
+  withinAllowlist,
+  type IdKind,
+  type ParentRefType,
 } from "./notion";
 
+// Rows included when a database is read as a resource or embedded in a prompt.
+const RESOURCE_ROWS = 100;
+const PROMPT_ROWS = 100;
+
+// Watches poll on the Durable Object's alarm and stop once no client has been
+// connected to receive their notifications for WATCH_IDLE_MS.
+const WATCH_DEFAULT_INTERVAL_SECONDS = 60;
+const WATCH_MIN_INTERVAL_SECONDS = 30;
+const WATCH_MAX_INTERVAL_SECONDS = 3600;
+const WATCH_IDLE_MS = 60 * 60 * 1000;
+
+// How long a discussion seen in list-comments can be replied to on an allowlisted grant.
+const DISCUSSION_TTL_SECONDS = 24 * 60 * 60;
+
+// batch-update-pages reads and writes each page once; this many stays under the
+// Workers subrequest ceiling with room for the schema and allowlist lookups.
+const BATCH_MAX_UPDATES = 20;
+
+const richTextFormat = z
+  .enum(["plain", "markdown", "spans"])
+  .optional()
+  .describe(
+    'How title/rich_text values are returned. "plain" (default) drops formatting; "markdown" returns inline Markdown (bold, italic, code, links, page mentions); "spans" returns compact annotated spans like [{ "text": "Hi", "bold": true, "link": "https://…" }] that round-trip exactly, mentions included. Write tools accept both forms back.',
+  );
+
+const richTextInput = z
+  .enum(["plain", "markdown"])
+  .optional()
+  .describe(
+    'How string rich text values are written. "plain" (default) writes them as literal text, so values read back as "plain" come out unchanged; "markdown" parses inline Markdown (bold, italic, code, links, page mentions), for values read with rich_text_format "markdown". Span arrays are written as given either way.',
+  );
+
 export class NotionMCP extends McpAgent<Env, unknown, Props> {
   server = new McpServer({
     name: "notion-mcp",
@@ -31,32 +100,139 @@ export class NotionMCP extends McpAgent<Env, unknown, Props> {
   });
 
   async init() {
-    const token = this.props!.accessToken;
+    const token = await this.notionToken(this.props!);
+    const cache = createSqlCache(this.ctx.storage.sql, this.props!.workspaceId);
+
+    // Only tools within the grant's scopes are registered. Props are refreshed on every
+    // request, so each call is checked against the current grant as well.
+    const granted = new Set<Scope>(this.props!.scopes ?? ALL_SCOPES);
+    const missingScope = (scope: Scope) => !(this.props?.scopes ?? ALL_SCOPES).includes(scope);
+    const registerTool: McpServer["registerTool"] = (name, config, handler) => {
+      const scope = toolScope(name);
+      const guarded = (async (...args: unknown[]) =>
+        missingScope(scope) ? scopeError(name, scope) : (handler as (...a: unknown[]) => Promise<CallToolResult>)(...args)) as typeof handler;
+      const tool = this.server.registerTool(name, config, guarded);
+      if (!granted.has(scope)) tool.remove();
+      return tool;
+    };
+
+    // Page and block calls go straight to Notion; the ID is only classified when Notion
+    // rejects it, so a wrong kind of ID (e.g. a database ID) gets a clear error. The
+    // allowlist is checked through /blocks, which resolves pages as well as blocks.
+    const checked = <T>(id: string, kinds: IdKind[], fn: (id: string) => Promise<T>) =>
+      withIdKindCheck(token, id, cache, kinds, async () => {
+        await assertAllowed({ type: "block_id", id });
+        return fn(id);
+      });
+
+    // A grant limited at consent to some data sources and pages only reaches those and
+    // what's below them. The allowlist is read per call, as props are refreshed per request.
+    // An object whose ancestry can't be read is denied too.
+    type Ref = { type: ParentRefType; id: string };
+    const assertAllowed = async (ref: Ref) => {
+      const allowlist = this.props?.allowlist;
+      if (!allowlist) return;
+      const allowed = await withinAllowlist(token, ref, allowlist, cache);
+      if (allowed === true) return;
+      const id = formatId(normalizeId(ref.id));
+      throw new Error(
+        allowed === undefined
+          ? `${id} couldn't be read, so it can't be checked against the databases and pages this connection may use. Check the ID and that it's shared with the integration.`
+          : `${id} is outside the databases and pages this connection may use. Re-authorize and select it, or a page above it, to use it.`,
+      );
+    };
+    const filterAllowed = async <T>(items: T[], refOf: (item: T) => Ref | undefined): Promise<T[]> => {
+      const allowlist = this.props?.allowlist;
+      if (!allowlist) return items;
+      const kept: T[] = [];
+      for (const item of items) {
+        const ref = refOf(item);
+        if (ref && (await withinAllowlist(token, ref, allowlist, cache)) === true) kept.push(item);
+      }
+      return kept;
+    };
+    const dataSourceFor = async (databaseId: string) => {
+      const id = await resolveDataSourceId(token, normalizeId(databaseId), cache);
+      await assertAllowed({ type: "data_source_id", id });
+      return id;
+    };
+
+    // A where expression is parsed up front, so syntax errors surface before any Notion
+    // call; checking it against the columns needs the (cached) schema.
+    const checkWhere = (where?: string, filter?: Record<string, any>) => {
+      if (where !== undefined && filter !== undefined) throw new Error("Pass either where or filter, not both.");
+      if (where !== undefined) parseWhere(where);
+    };
+    const filterFor = async (dataSourceId: string, where?: string, filter?: Record<string, any>) => {
+      if (where === undefined) return filter;
+      const schema = await getDatabaseSchema(token, dataSourceId, cache);
+      return compileWhere(where, schema.properties, {
+        // People are named by user ID, email or name; relations by page ID or URL.
+        resolveId: async (type, value) =>
+          type === "relation" ? normalizeId(value) : (await resolvePeople(token, [value], cache))[0],
+      });
+    };
+
+    // Mutating tools record their arguments, the prior state and the result, for
+    // list-changes and undo-change.
+    const audit = createAuditStore(this.ctx.storage.sql);
+    const audited = async <T>(tool: string, args: unknown, before: AuditBefore, run: () => Promise<T>): Promise<T> => {
+      try {
+        const result = await run();
+        audit.record({ tool, args, before, result, status: "applied" });
+        return result;
+      } catch (err) {
+        audit.record({ tool, args, before, result: { error: err instanceof Error ? err.message : String(err) }, status: "failed" });
+        throw err;
+      }
+    };
 
-    this.server.registerTool("list-databases", {
+    registerTool("list-databases", {
       description: `List all Notion databases the integration can access. This is the starting point — call this first to discover available databases and get their IDs.
 
 Returns an array of objects with: id, title, url, created_time, last_edited_time.
 
 Use the returned "id" as the database_id input for get-database-schema, query-database, update-database, and create-database-item.`,
-    }, async () => {
-      const dbs = await listDatabases(token);
+    }, withToolErrors(async () => {
+      const dbs = await filterAllowed(await listDatabases(token, cache), (db) => ({ type: "data_source_id", id: db.id }));
       return { content: [{ type: "text", text: JSON.stringify(dbs, null, 2) }] };
-    });
+    }));
 
-    this.server.registerTool("get-database-schema", {
+    registerTool("search", {
+      description: `Search the workspace for pages and databases by title. Use this to go from a description ("the Q3 planning doc") to an ID.
+
+Returns: { results, has_more, next_cursor } where each result has id, type ("page" or "data_source"), title, parent_path (titles of the pages/databases above it, e.g. "Projects / Roadmap"), url, and last_edited_time.
+
+Data source IDs work as database_id for the database tools; page IDs work with get-page, get-page-content and the other page tools. Matching is by title only, not page content.`,
+      inputSchema: {
+        query: z.string().optional().describe("Text to match against titles. Omit to list everything the integration can access."),
+        type: z.enum(["page", "data_source"]).optional().describe("Only return pages or only data sources (databases). Omit for both."),
+        sort: z.enum(["ascending", "descending"]).optional().describe("Sort by last_edited_time. Omit for Notion's relevance order."),
+        page_size: z.number().optional().describe("Max results to return (1-100, default 20)."),
+        start_cursor: z.string().optional().describe("Cursor from a previous search's next_cursor to fetch the next page of results."),
+      },
+    }, withToolErrors(async ({ query, type, sort, page_size, start_cursor }) => {
+      const result = await searchWorkspace(token, { query, type, sortDirection: sort, pageSize: page_size, startCursor: start_cursor }, cache);
+      result.results = await filterAllowed(result.results, (r) => ({ type: r.type === "page" ? "page_id" : "data_source_id", id: r.id }));
+      return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+    }));
+
+    registerTool("get-database-schema", {
       description: `Get the schema (columns/properties) of a Notion database including property names, types, and options.
 
 IMPORTANT: Always call this BEFORE query-database, create-database-item, or update-page-properties so you know the exact property names and types. Property names are case-sensitive.
 
-Returns: id, title, and a properties array where each entry has: name, type, and (for select/multi_select/status) the available options.`,
+Returns: id, title, last_edited_time, and a properties array where each entry has: name, type, and (for select/multi_select/status) the available options.
+
+Schemas are cached for a few minutes and refreshed automatically after update-database.`,
       inputSchema: { database_id: z.string().describe("Database ID from list-databases, or a Notion URL") },
-    }, async ({ database_id }) => {
-      const schema = await getDatabaseSchema(token, normalizeId(database_id));
+    }, withToolErrors(async ({ database_id }) => {
+      const dataSourceId = await dataSourceFor(database_id);
+      const schema = await getDatabaseSchema(token, dataSourceId, cache);
       return { content: [{ type: "text", text: JSON.stringify(schema, null, 2) }] };
-    });
+    }));
 
-    this.server.registerTool("query-database", {
+    registerTool("query-database", {
       description: `Query items (rows) from a Notion database with optional filtering and sorting. Returns flattened properties for each item.
 
 PREREQUISITE: Call get-database-schema first to discover exact property names and types — filters will fail if you guess wrong.
@@ -94,9 +270,22 @@ Operators by type:
 Array of sort objects:
   [{ "property": "Score", "direction": "descending" }]
   [{ "timestamp": "last_edited_time", "direction": "ascending" }]
-  [{ "property": "Category", "direction": "ascending" }, { "property": "Score", "direction": "descending" }]`,
+  [{ "property": "Category", "direction": "ascending" }, { "property": "Score", "direction": "descending" }]
+
+## Where expressions
+
+Instead of a filter object you can pass a compact "where" string, checked against the schema before querying:
+  Status = "Done" AND (Score > 50 OR Tags contains "Urgent") AND Due before 2026-11-01
+
+Property names are bare words or quoted ("Due Date"). Values are "quoted strings", numbers, true/false or ISO dates. People values can be a user ID, email or name (Owner contains "ada@example.com").
+Operators: =, !=, >, <, >=, <=, contains, not contains, starts with, ends with, before, after, on or before, on or after, is empty, is not empty, in past_week (also past_month, past_year, this_week, next_week, next_month, next_year).
+created_time and last_edited_time can be used as property names to filter on the page timestamps.`,
       inputSchema: {
         database_id: z.string().describe("Database ID from list-databases, or a Notion URL"),
+        where: z
+          .string()
+          .optional()
+          .describe('Compact filter expression, e.g. Status = "Done" AND Score > 50. Use instead of filter, not together with it.'),
         filter: z
           .record(z.string(), z.any())
           .optional()
@@ -117,43 +306,191 @@ Array of sort objects:
           .string()
           .optional()
           .describe("Cursor from a previous query's next_cursor to fetch the next page of results."),
+        rich_text_format: richTextFormat,
       },
-    }, async ({ database_id, filter, sorts, page_size, start_cursor }) => {
-      const result = await queryDatabase(token, normalizeId(database_id), filter, sorts, page_size, start_cursor);
+    }, withToolErrors(async ({ database_id, where, filter, sorts, page_size, start_cursor, rich_text_format }) => {
+      checkWhere(where, filter);
+      const dataSourceId = await dataSourceFor(database_id);
+      filter = await filterFor(dataSourceId, where, filter);
+      const result = await queryDatabase(token, dataSourceId, filter, sorts, page_size, start_cursor, rich_text_format);
       return {
         content: [{ type: "text", text: JSON.stringify({ count: result.results.length, has_more: result.has_more, next_cursor: result.next_cursor, results: result.results }, null, 2) }],
       };
-    });
+    }));
+
+    registerTool("export-database", {
+      description: `Export a Notion database's rows as CSV or JSON Lines — compact output for reporting or spreadsheets, instead of query-database's full JSON.
+
+The export is returned as an embedded resource (text/csv or application/jsonl), alongside a summary: { columns, row_count, has_more, next_cursor }.
+
+Columns default to id, the title column, then every other property; pass "columns" to choose and order them (property names plus id, url, created_time, last_edited_time). In CSV, multi-value cells (multi-select, people, relations, files) are joined with "delimiter" and date ranges are written as start/end. In JSON Lines, multi-value cells stay arrays.
+
+Large databases are exported in chunks of max_rows (default 500, up to 2000): when has_more is true, call again with start_cursor set to next_cursor and the same arguments. CSV continuation chunks have no header row, so they can be appended directly.
+
+Filter rows with "where" or "filter" and order them with "sorts", exactly as in query-database.`,
+      inputSchema: {
+        database_id: z.string().describe("Database ID from list-databases, or a Notion URL"),
+        format: z.enum(["csv", "jsonl"]).describe("csv or jsonl (one JSON object per line)"),
+        columns: z.array(z.string()).optional().describe("Columns to include, in order. Defaults to id, the title and all other properties."),
+        delimiter: z.string().optional().describe('Separator for multi-value cells in CSV (default "; ")'),
+        where: z.string().optional().describe('Compact filter expression as in query-database, e.g. Status = "Done"'),
+        filter: z.record(z.string(), z.any()).optional().describe("Notion filter object, as in query-database"),
+        sorts: z.array(z.record(z.string(), z.any())).optional().describe("Sort objects, as in query-database"),
+        max_rows: z.number().optional().describe("Rows per chunk (default 500, max 2000)"),
+        start_cursor: z.string().optional().describe("next_cursor from the previous chunk"),
+      },
+    }, withToolErrors(async ({ database_id, format, columns, delimiter, where, filter, sorts, max_rows, start_cursor }) => {
+      checkWhere(where, filter);
+      const dataSourceId = await dataSourceFor(database_id);
+      const { data, ...summary } = await exportDatabase(token, dataSourceId, {
+        format,
+        columns,
+        delimiter,
+        filter: await filterFor(dataSourceId, where, filter),
+        sorts,
+        maxRows: max_rows,
+        startCursor: start_cursor,
+      }, cache);
+      const part = start_cursor ? `?start_cursor=${encodeURIComponent(start_cursor)}` : "";
+      return {
+        content: [
+          { type: "text", text: JSON.stringify(summary, null, 2) },
+          {
+            type: "resource",
+            resource: {
+              uri: `notion://data-source/${dataSourceId}/export.${format}${part}`,
+              mimeType: format === "csv" ? "text/csv" : "application/jsonl",
+              text: data,
+            },
+          },
+        ],
+      };
+    }));
+
+    registerTool("import-csv", {
+      description: `Import CSV rows into a Notion database, creating one item per row. The reverse of export-database.
+
+The first CSV line is the header. Columns are matched to properties by name (case-insensitive), or by "mapping" ({ "CSV column": "Property" }, null to ignore a column). Columns that match nothing are reported in unmapped_columns and ignored; id/url columns from export-database are ignored too.
+
+Cells are converted by property type like the simple values of create-database-item: numbers, true/false/yes/no checkboxes, dates (ranges as start/end), people by name or email, relations by page ID or URL. Multi-value cells (multi-select, people, relations, files) are split on "delimiter" (default ";"). Empty cells are left unset.
+
+Select and multi-select values that aren't existing options fail their row, unless create_missing_options is true — then the options are added to the database first. That changes the database's schema, so it needs the notion.schema scope.
+
+Use dry_run first: it checks every row without writing anything. A real import creates up to 40 rows per call; if remaining_rows is reported, call again with the same CSV and start_row set to next_row.
+
+Returns: { mapping, unmapped_columns, total_rows, processed, succeeded, failed, results } with per-row status ("success" with the new page id and url, "valid" in a dry run, or "error" with the message). Row numbers count the header as row 1, as in a spreadsheet.`,
+      inputSchema: {
+        database_id: z.string().describe("Database ID from list-databases, or a Notion URL"),
+        csv: z.string().describe("CSV text with a header row"),
+        mapping: z
+          .record(z.string(), z.string().nullable())
+          .optional()
+          .describe('CSV column → property name, e.g. { "Task": "Name" }. Use null to skip a column. Unlisted columns are matched by name.'),
+        delimiter: z.string().optional().describe('Separator inside multi-value cells (default ";")'),
+        create_missing_options: z.boolean().optional().describe("Add unknown select/multi-select values as new options (default false). Needs the notion.schema scope."),
+        dry_run: z.boolean().optional().describe("Validate every row without creating anything (default false)"),
+        start_row: z.number().optional().describe("Row to start from (header is row 1), e.g. next_row from a previous call"),
+      },
+    }, withToolErrors(async ({ database_id, csv, mapping, delimiter, create_missing_options, dry_run, start_row }) => {
+      if (create_missing_options && missingScope("notion.schema")) return scopeError("import-csv with create_missing_options", "notion.schema");
+      const dataSourceId = await dataSourceFor(database_id);
+      const result = await importCsv(token, dataSourceId, csv, {
+        mapping,
+        delimiter,
+        createMissingOptions: create_missing_options,
+        dryRun: dry_run,
+        startRow: start_row,
+      }, cache);
+      return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+    }));
 
-    this.server.registerTool("get-page", {
+    registerTool("get-page", {
       description: `Get a single Notion page's metadata and property values. Use this to read the structured data (title, status, dates, etc.) of a specific page or database item.
 
 Returns: id, url, created_time, last_edited_time, and properties (flattened to human-readable values).
 
+Title and rich_text values are plain text by default; set rich_text_format to "markdown" or "spans" to keep formatting, links and mentions (e.g. before editing them with update-page-properties).
+
 Note: This returns property values only, NOT the page's body content. To read the actual text/blocks inside the page, use get-page-content instead.`,
-      inputSchema: { page_id: z.string().describe("Page ID (from query-database results or a Notion URL)") },
-    }, async ({ page_id }) => {
-      const page = await getPage(token, normalizeId(page_id));
+      inputSchema: {
+        page_id: z.string().describe("Page ID (from query-database results or a Notion URL)"),
+        rich_text_format: richTextFormat,
+      },
+    }, withToolErrors(async ({ page_id, rich_text_format }) => {
+      const page = await checked(normalizeId(page_id), ["page"], (id) => getPage(token, id, rich_text_format));
       return { content: [{ type: "text", text: JSON.stringify(page, null, 2) }] };
-    });
+    }));
 
-    this.server.registerTool("get-page-content", {
-      description: `Get the body content (blocks) of a Notion page — paragraphs, headings, lists, code blocks, to-dos, etc.
+    registerTool("get-page-content", {
+      description: `Get the body content (blocks) of a Notion page — paragraphs, headings, lists, code blocks, to-dos, etc. — as a nested tree.
 
-Returns an array of blocks, each with: id, type, text, has_children, and type-specific fields (url, language, checked).
+Returns: { block_count, truncated, truncated_by, blocks } where each block has: id, type, text (plain, Markdown or spans per rich_text_format), has_children, type-specific fields (url, language, checked), and a "children" array holding its nested blocks (toggles, nested list items, columns, callouts, synced blocks…).
+
+Nested content is fetched up to max_depth levels and max_blocks blocks in total. If a limit cut the tree short, truncated is true and truncated_by names the limit(s) ("max_depth", "max_blocks", or "request_budget"); blocks with has_children but no "children" array were not expanded — call get-page-content again with that block's ID to read them. Child pages and child databases are never expanded.
 
 Note: This returns the page body only, NOT its properties. To read properties (title, status, dates, etc.), use get-page instead.`,
-      inputSchema: { page_id: z.string().describe("Page ID (from query-database results or a Notion URL)") },
-    }, async ({ page_id }) => {
-      const blocks = await getPageBlocks(token, normalizeId(page_id));
-      return { content: [{ type: "text", text: JSON.stringify(blocks, null, 2) }] };
-    });
+      inputSchema: {
+        page_id: z.string().describe("Page or block ID (from query-database results, get-page-content, or a Notion URL)"),
+        max_depth: z
+          .number()
+          .int()
+          .min(1)
+          .optional()
+          .describe("Levels of nesting to fetch (1 = top-level blocks only). Default 5."),
+        max_blocks: z
+          .number()
+          .int()
+          .min(1)
+          .optional()
+          .describe("Maximum number of blocks to fetch across the whole tree. Default 500."),
+        rich_text_format: richTextFormat,
+      },
+    }, withToolErrors(async ({ page_id, max_depth, max_blocks, rich_text_format }) => {
+      const content = await checked(normalizeId(page_id), ["page", "block"], (id) =>
+        getPageContent(token, id, { maxDepth: max_depth, maxBlocks: max_blocks, richText: rich_text_format }),
+      );
+      return { content: [{ type: "text", text: JSON.stringify(content, null, 2) }] };
+    }));
+
+    registerTool("get-page-markdown", {
+      description: `Get a Notion page as Markdown — much more compact than the JSON from get-page-content. Use this to read or summarize a page.
+
+Returns a single Markdown document:
+- YAML front matter with the page's id, url, and flattened property values
+- the body as GitHub-flavoured Markdown: headings, nested lists, to-dos as "- [ ]"/"- [x]", code fences with language, quotes, callouts (as quotes with their emoji), dividers, tables, toggles as <details>, images, files and bookmarks as links, and inline bold, italic, code, strikethrough, links and mentions
 
-    this.server.registerTool("add-page-content", {
+Nested content is fetched up to max_depth levels and max_blocks blocks; if a limit was hit, the document ends with a "truncated" comment. Use get-page-content when you need block IDs (e.g. to update or delete blocks).`,
+      inputSchema: {
+        page_id: z.string().describe("Page ID (from query-database results or a Notion URL)"),
+        max_depth: z
+          .number()
+          .int()
+          .min(1)
+          .optional()
+          .describe("Levels of nesting to fetch (1 = top-level blocks only). Default 5."),
+        max_blocks: z
+          .number()
+          .int()
+          .min(1)
+          .optional()
+          .describe("Maximum number of blocks to fetch across the whole tree. Default 500."),
+      },
+    }, withToolErrors(async ({ page_id, max_depth, max_blocks }) => {
+      const markdown = await checked(normalizeId(page_id), ["page"], (id) =>
+        getPageMarkdown(token, id, { maxDepth: max_depth, maxBlocks: max_blocks }),
+      );
+      return { content: [{ type: "text", text: markdown }] };
+    }));
+
+    registerTool("add-page-content", {
       description: `Append content blocks to an existing Notion page or block. Blocks are added to the end of the page body.
 
 Use get-page-content first to see existing blocks, then use this to add more.
 
+## Markdown (recommended)
+
+Pass "markdown" instead of "children" and it is converted to Notion blocks for you: # headings, paragraphs, nested "-"/"1." lists, "- [ ]"/"- [x]" to-dos, \`\`\`language code fences, > quotes, "> 💡 text" or "> [!NOTE]" callouts, --- dividers, | tables |, <details><summary>…</summary>…</details> toggles, $$ equations $$, ![caption](url) or ![caption](<upload-id>) images, and inline **bold**, *italic*, \`code\`, ~~strikethrough~~, <u>underline</u>, [links](https://…) and $inline equations$. Long text and large documents are split to fit Notion's limits automatically.
+
 ## Block syntax
 
 Each block is an object with "object": "block", a "type", and the type-specific content:
@@ -181,6 +518,13 @@ Other:
   { "object": "block", "type": "quote", "quote": { "rich_text": [{ "type": "text", "text": { "content": "A wise quote" } }] } }
   { "object": "block", "type": "callout", "callout": { "rich_text": [{ "type": "text", "text": { "content": "Important note" } }], "icon": { "emoji": "💡" } } }
 
+Images, files and PDFs (from a URL, or a file upload ID from upload-file):
+  { "object": "block", "type": "image", "image": { "type": "external", "external": { "url": "https://…/chart.png" } } }
+  { "object": "block", "type": "pdf", "pdf": { "type": "file_upload", "file_upload": { "id": "<upload-id>" } } }
+  { "object": "block", "type": "file", "file": { "type": "file_upload", "file_upload": { "id": "<upload-id>" } } }
+
+Any "rich_text" may also be given as a string (literal text, or inline Markdown with rich_text_format "markdown") or as compact spans ([{ "text": "bold", "bold": true }]).
+
 Rich text formatting (applies inside any rich_text array):
   Bold:          { "type": "text", "text": { "content": "bold" }, "annotations": { "bold": true } }
   Italic:        { "type": "text", "text": { "content": "italic" }, "annotations": { "italic": true } }
@@ -190,14 +534,43 @@ Rich text formatting (applies inside any rich_text array):
         page_id: z.string().describe("Page or block ID to append content to — from query-database results, get-page, get-page-content, or a Notion URL"),
         children: z
           .array(z.record(z.string(), z.any()))
-          .describe("Array of block objects to append. See description for block syntax."),
+          .optional()
+          .describe("Array of block objects to append. See description for block syntax. Provide this or markdown."),
+        markdown: z
+          .string()
+          .optional()
+          .describe("Markdown to convert into blocks and append. Provide this or children."),
+        rich_text_format: richTextInput,
       },
-    }, async ({ page_id, children }) => {
-      const blocks = await appendBlockChildren(token, normalizeId(page_id), children);
+    }, withToolErrors(async ({ page_id, children, markdown, rich_text_format }) => {
+      const content = blocksFrom(children, markdown);
+      if (!content) throw new Error("Pass children or markdown.");
+      const blocks = await checked(normalizeId(page_id), ["page", "block"], (id) =>
+        appendBlockChildren(token, id, content, rich_text_format),
+      );
       return { content: [{ type: "text", text: JSON.stringify(blocks, null, 2) }] };
-    });
+    }));
+
+    registerTool("upload-file", {
+      description: `Upload a file to Notion so it can be attached to pages. Pass the content as base64 (or a data: URL), or a URL for the server to download.
+
+Returns: { id, status, filename, content_type, content_length, expiry_time }. Use the id within an hour, or Notion discards the upload:
+- files properties in create-database-item / update-page-properties: { "Attachments": ["<id>"] }
+- image, file and pdf blocks in add-page-content: { "type": "image", "image": { "type": "file_upload", "file_upload": { "id": "<id>" } } }, or ![caption](<id>) in markdown
+
+Files up to 20 MB are accepted. Free Notion workspaces only allow files up to 5 MB.`,
+      inputSchema: {
+        base64: z.string().optional().describe("File content as base64, or a data: URL. Provide this or url."),
+        url: z.string().optional().describe("URL to download the file from. Provide this or base64."),
+        filename: z.string().optional().describe("File name with extension, e.g. report.pdf. Required with base64; defaults to the URL's file name."),
+        content_type: z.string().optional().describe("MIME type, e.g. image/png. Defaults to the data: URL or download's type, or is inferred from the file name."),
+      },
+    }, withToolErrors(async ({ base64, url, filename, content_type }) => {
+      const result = await uploadFile(token, { base64, url, filename, contentType: content_type });
+      return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+    }));
 
-    this.server.registerTool("update-block", {
+    registerTool("update-block", {
       description: `Update an existing block's content on a Notion page. Only the fields you include will be changed.
 
 PREREQUISITE: Call get-page-content first to get the block IDs and current content.
@@ -213,33 +586,115 @@ Update to-do (check/uncheck):
 Update code block:
   { "code": { "rich_text": [{ "type": "text", "text": { "content": "new code" } }], "language": "python" } }
 
+Alternatively pass "markdown" describing the block's new content, e.g. "Updated **bold** text", "- [x] Task" or a \`\`\`python fenced code block. It must be a single block without nested content; if it parses to a different block type than the existing block (e.g. plain text for a to-do), its text replaces the block's text.
+
 Returns the updated block with id, type, text, and type-specific fields.`,
       inputSchema: {
         block_id: z.string().describe("Block ID from get-page-content results"),
         block: z
           .record(z.string(), z.any())
-          .describe("Block update object. Key is the block type (paragraph, to_do, code, etc.) with new content."),
+          .optional()
+          .describe("Block update object. Key is the block type (paragraph, to_do, code, etc.) with new content. Provide this or markdown."),
+        markdown: z
+          .string()
+          .optional()
+          .describe("New content for the block as Markdown. Provide this or block."),
+        rich_text_format: richTextInput,
       },
-    }, async ({ block_id, block }) => {
-      const result = await updateBlock(token, normalizeId(block_id), block);
+    }, withToolErrors(async ({ block_id, block, markdown, rich_text_format }) => {
+      if ((block === undefined) === (markdown === undefined)) throw new Error("Pass exactly one of block or markdown.");
+      const result = await checked(normalizeId(block_id), ["block", "page"], async (id) => {
+        const before = await getRawBlock(token, id);
+        return audited("update-block", { block_id, block, markdown }, { kind: "block", block: before }, () =>
+          markdown !== undefined ? updateBlockFromMarkdown(token, id, markdown) : updateBlock(token, id, block!, rich_text_format),
+        );
+      });
       return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
-    });
+    }));
 
-    this.server.registerTool("delete-block", {
+    registerTool("delete-block", {
       description: `Delete (archive) a block from a Notion page. The block is removed from the page and moved to Notion's trash.
 
 PREREQUISITE: Call get-page-content first to get the block ID you want to delete.
 
-This is not reversible via the API — only through Notion's trash UI.`,
+The block can be restored with undo-change (see list-changes) or from Notion's trash.`,
       inputSchema: {
         block_id: z.string().describe("Block ID from get-page-content results"),
       },
-    }, async ({ block_id }) => {
-      const result = await deleteBlock(token, normalizeId(block_id));
+    }, withToolErrors(async ({ block_id }) => {
+      const result = await checked(normalizeId(block_id), ["block", "page"], async (id) => {
+        const before = await getRawBlock(token, id);
+        const target = { kind: "block" as const, id: formatId(id) };
+        return audited("delete-block", { block_id }, { kind: "trash", target, snapshot: before }, () => deleteBlock(token, id));
+      });
       return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
-    });
+    }));
 
-    this.server.registerTool("update-database", {
+    registerTool("list-comments", {
+      description: `List the open (unresolved) comments on a Notion page or block, grouped by discussion thread.
+
+Returns: { count, discussions } where each discussion has a discussion_id and its comments oldest first, each with id, author (id and name), created_time, last_edited_time and text.
+
+Use a discussion_id with add-comment to reply in that thread. Set rich_text_format to "markdown" or "spans" to keep formatting, links and mentions.`,
+      inputSchema: {
+        block_id: z.string().describe("Page ID or block ID (from get-page-content), or a Notion URL"),
+        rich_text_format: richTextFormat,
+      },
+    }, withToolErrors(async ({ block_id, rich_text_format }) => {
+      const result = await checked(normalizeId(block_id), ["page", "block"], (id) => listComments(token, id, rich_text_format, cache));
+      // Replies name only the discussion, so remember the ones seen on allowed pages.
+      for (const d of result.discussions) cache.put(`discussion:${d.discussion_id}`, true, DISCUSSION_TTL_SECONDS);
+      return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+    }));
+
+    registerTool("add-comment", {
+      description: `Add a comment to a Notion page, or reply to an existing discussion.
+
+Pass page_id to start a new top-level discussion on the page, or discussion_id (from list-comments) to reply in that thread — exactly one of the two.
+
+text is written as literal text, or as Markdown (**bold**, *italic*, \`code\`, [links](https://…), Notion page URLs become mentions) with rich_text_format "markdown". It also accepts the compact spans returned by rich_text_format "spans".
+
+Returns: the new comment's discussion_id, id, author, created_time and text.`,
+      inputSchema: {
+        page_id: z.string().optional().describe("Page ID or Notion URL to start a new discussion on"),
+        discussion_id: z.string().optional().describe("discussion_id from list-comments to reply to"),
+        text: z
+          .union([z.string(), z.array(z.record(z.string(), z.any()))])
+          .describe("Comment text, or an array of rich text spans"),
+        rich_text_format: richTextInput,
+      },
+    }, withToolErrors(async ({ page_id, discussion_id, text, rich_text_format }) => {
+      if (!page_id && discussion_id && this.props?.allowlist && !cache.get(`discussion:${discussion_id}`)) {
+        throw new Error("Call list-comments on the discussion's page first, so it can be checked against the pages this connection may use.");
+      }
+      const result = page_id
+        ? await checked(normalizeId(page_id), ["page"], (id) => addComment(token, { pageId: id, discussionId: discussion_id, text, richText: rich_text_format }))
+        : await addComment(token, { discussionId: discussion_id, text, richText: rich_text_format });
+      return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+    }));
+
+    registerTool("list-users", {
+      description: `List the people and bots in the Notion workspace.
+
+Returns an array of users with id, type ("person" or "bot"), name, email (people only) and avatar_url.
+
+You rarely need the IDs: people properties in create-database-item, update-page-properties and batch-update-pages accept names or emails and resolve them for you. Use this to check who exists or to disambiguate people who share a name. The list is cached for a few minutes.`,
+    }, withToolErrors(async () => {
+      const users = await listUsers(token, cache);
+      return { content: [{ type: "text", text: JSON.stringify(users, null, 2) }] };
+    }));
+
+    registerTool("get-self", {
+      description: `Get the integration's own bot user and the workspace this connection is authorized for.
+
+Returns: { bot: { id, type, name, avatar_url, owner }, workspace: { id, name } }.`,
+    }, withToolErrors(async () => {
+      const bot = await getSelf(token);
+      const workspace = { id: this.props!.workspaceId, name: this.props!.workspaceName };
+      return { content: [{ type: "text", text: JSON.stringify({ bot, workspace }, null, 2) }] };
+    }));
+
+    registerTool("update-database", {
       description: `Modify a Notion database's structure — rename it, add/rename/remove columns (properties).
 
 IMPORTANT: This changes the database schema (columns), NOT the data inside it. To update an item's values, use update-page-properties.
@@ -269,12 +724,22 @@ Number formats: number, number_with_commas, percent, dollar, euro, pound, yen, r
           .optional()
           .describe("Column changes. Key = column name, value = type config (to add/update), null (to delete), or { name: 'New Name' } (to rename)."),
       },
-    }, async ({ database_id, title, properties }) => {
-      const result = await updateDatabase(token, normalizeId(database_id), { title, properties });
+    }, withToolErrors(async ({ database_id, title, properties }) => {
+      const dataSourceId = await dataSourceFor(database_id);
+      const before: AuditBefore = {
+        kind: "schema",
+        data_source_id: dataSourceId,
+        data_source: await getRawDataSource(token, dataSourceId),
+        keys: Object.keys(properties ?? {}),
+        title: title !== undefined,
+      };
+      const result = await audited("update-database", { database_id, title, properties }, before, () =>
+        updateDatabase(token, dataSourceId, { title, properties }, cache),
+      );
       return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
-    });
+    }));
 
-    this.server.registerTool("create-database-item", {
+    registerTool("create-database-item", {
       description: `Add a new item (row) to a Notion database.
 
 PREREQUISITE: Call get-database-schema first to get the exact property names and types — names are case-sensitive and must match exactly.
@@ -292,24 +757,40 @@ Each property key is the column name, and the value format depends on the column
   email:        { "email": "user@example.com" }
   phone_number: { "phone_number": "+1234567890" }
   relation:     { "relation": [{ "id": "<page-id>" }] }
-  people:       { "people": [{ "id": "<user-id>" }] }
+  people:       { "people": [{ "id": "<user-id or email>" }] }
+  files:        { "files": [{ "type": "file_upload", "file_upload": { "id": "<upload-id>" } }] }
+
+Rich text values (title and rich_text properties) can also be given as a string, written as literal text, or as inline Markdown with rich_text_format "markdown", e.g. { "rich_text": "See **this** [doc](https://…)" }, or as the compact spans returned with rich_text_format "spans", e.g. { "rich_text": [{ "text": "See " }, { "text": "this", "bold": true }] }.
+
+## Simple values
+
+Instead of the raw payloads, you can pass the same flattened values get-page returns, and they're converted using the database schema:
+  { "Name": "My Title", "Status": "Done", "Tags": ["a", "b"], "Due": "2026-10-20", "Done": true, "Score": 42 }
+  date ranges: "2026-10-20/2026-10-25" or { "start": "2026-10-20", "end": "2026-10-25" }
+  people: user IDs, names or emails — ["ada@example.com"]; pass several as an array, since names can contain commas ("Doe, Jane")
+  relation: page IDs or Notion URLs
+  files: external URLs or file upload IDs from upload-file
+  title/rich_text: plain text, or Markdown (**bold**, [links](https://…)) with rich_text_format "markdown"
+Raw and simple values can be mixed. Unknown property names and invalid status options are reported with the valid choices.
 
 Returns the created page with its id, url, and flattened properties.`,
       inputSchema: {
         database_id: z.string().describe("Database ID from list-databases, or a Notion URL"),
         properties: z
           .record(z.string(), z.any())
-          .describe("Property values keyed by column name. Every database has a title-type column (often called 'Name') which should be included."),
+          .describe("Property values keyed by column name, as raw Notion payloads or simple values. Every database has a title-type column (often called 'Name') which should be included."),
+        rich_text_format: richTextInput,
       },
-    }, async ({ database_id, properties }) => {
+    }, withToolErrors(async ({ database_id, properties, rich_text_format }) => {
+      const dataSourceId = await dataSourceFor(database_id);
       const page = await createPage(token, {
-        parent: { data_source_id: normalizeId(database_id) },
-        properties,
+        parent: { data_source_id: dataSourceId },
+        properties: await preparePropertyValues(token, properties, { dataSourceId, richText: rich_text_format }, cache),
       });
       return { content: [{ type: "text", text: JSON.stringify(page, null, 2) }] };
-    });
+    }));
 
-    this.server.registerTool("update-page-properties", {
+    registerTool("update-page-properties", {
       description: `Update property values of an existing Notion page or database item. Only the properties you include will be changed — omitted properties are left untouched.
 
 PREREQUISITE: Call get-database-schema to know the exact property names and types if updating a database item.
@@ -327,48 +808,102 @@ Property value format is the same as create-database-item:
   email:        { "email": "new@example.com" }
   phone_number: { "phone_number": "+0987654321" }
   relation:     { "relation": [{ "id": "<page-id>" }] }
-  people:       { "people": [{ "id": "<user-id>" }] }
+  people:       { "people": [{ "id": "<user-id or email>" }] }
+  files:        { "files": [{ "type": "file_upload", "file_upload": { "id": "<upload-id>" } }] }
+
+Rich text values (title and rich_text properties) can also be given as a string, written as literal text, or as inline Markdown with rich_text_format "markdown", e.g. { "rich_text": "See **this** [doc](https://…)" }, or as the compact spans returned with rich_text_format "spans", e.g. { "rich_text": [{ "text": "See " }, { "text": "this", "bold": true }] }.
 
 To clear a property, set it to its empty value (e.g. { "rich_text": [] }, { "select": null }).
 
 To remove a single tag from a multi_select, re-send the array with that tag omitted. For example, to remove "Patterns" while keeping "Scaling Reads": { "multi_select": [{ "name": "Scaling Reads" }] }
 
+## Simple values
+
+Instead of the raw payloads, you can pass the same flattened values get-page returns, and they're converted using the database schema:
+  { "Name": "My Title", "Status": "Done", "Tags": ["a", "b"], "Due": "2026-10-20", "Done": true, "Score": 42 }
+  date ranges: "2026-10-20/2026-10-25" or { "start": "2026-10-20", "end": "2026-10-25" }
+  people: user IDs, names or emails — ["ada@example.com"]; pass several as an array, since names can contain commas ("Doe, Jane")
+  relation: page IDs or Notion URLs
+  files: external URLs or file upload IDs from upload-file
+  title/rich_text: plain text, or Markdown (**bold**, [links](https://…)) with rich_text_format "markdown"
+Raw and simple values can be mixed. Unknown property names and invalid status options are reported with the valid choices.
+
 Returns the updated page with its id, url, and flattened properties.`,
       inputSchema: {
         page_id: z.string().describe("Page ID from query-database results, get-page, or a Notion URL"),
         properties: z
           .record(z.string(), z.any())
           .describe("Property values to update. Only included properties are changed; others remain untouched."),
+        rich_text_format: richTextInput,
       },
-    }, async ({ page_id, properties }) => {
-      const page = await updatePage(token, normalizeId(page_id), properties);
+    }, withToolErrors(async ({ page_id, properties, rich_text_format }) => {
+      const page = await checked(normalizeId(page_id), ["page"], async (id) => {
+        const raw = await getRawPage(token, id);
+        const payload = await preparePropertyValues(token, properties, { pageId: id, page: raw, richText: rich_text_format }, cache);
+        const before: AuditBefore = {
+          kind: "properties",
+          pages: [{ page_id: formatId(id), properties: pickProperties(raw, Object.keys(payload)) }],
+        };
+        return audited("update-page-properties", { page_id, properties }, before, () => updatePage(token, id, payload));
+      });
       return { content: [{ type: "text", text: JSON.stringify(page, null, 2) }] };
-    });
+    }));
+
+    registerTool("duplicate-page", {
+      description: `Duplicate a Notion page or database item — properties, icon, cover and its full nested content — under a new parent page or into a database. Use this to stamp out copies of template items (sprint pages, scorecards, …).
+
+The parent can be a page or a database (data source). When copying into a database, properties are matched by name and type; ones the target lacks are skipped. Under a page, only the title is kept. Files stored in Notion are re-uploaded to the copy.
+
+Child pages and databases, and blocks the API can't create (e.g. link previews), are not copied; they're listed in skipped_blocks. Synced blocks are copied as references to the same original.
+
+Returns: the new page (id, url, properties), block_count, id_map (old block ID → new block ID), skipped_blocks and skipped_properties.
+
+Very large pages are rejected before anything is created, since a single call can only make a limited number of Notion requests.`,
+      inputSchema: {
+        page_id: z.string().describe("Page to copy — from query-database results, search, get-page, or a Notion URL"),
+        parent_id: z.string().describe("Page or database to create the copy in. Use the source's own database to duplicate an item in place."),
+        title: z.string().optional().describe("Title for the copy. Defaults to the source's title."),
+        rich_text_format: richTextInput,
+      },
+    }, withToolErrors(async ({ page_id, parent_id, title, rich_text_format }) => {
+      const parent = await resolvePageParent(token, normalizeId(parent_id), cache);
+      await assertAllowed(parent.pageId ? { type: "page_id", id: parent.pageId } : { type: "data_source_id", id: parent.dataSourceId! });
+      const result = await checked(normalizeId(page_id), ["page"], (id) =>
+        duplicatePage(token, id, parent, { title, richText: rich_text_format, cache }),
+      );
+      return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+    }));
 
-    this.server.registerTool("delete-page", {
+    registerTool("delete-page", {
       description: `Archive (soft-delete) a Notion page or database item. The item is moved to Notion's trash and can be restored by the user from the Notion UI.
 
-Use this to remove items from a database or delete standalone pages. This is not reversible via the API — only through Notion's trash UI.`,
+Use this to remove items from a database or delete standalone pages. The page can be restored with undo-change (see list-changes) or from Notion's trash.`,
       inputSchema: {
         page_id: z.string().describe("Page ID to archive — from query-database results, get-page, or a Notion URL"),
       },
-    }, async ({ page_id }) => {
-      const result = await archivePage(token, normalizeId(page_id));
+    }, withToolErrors(async ({ page_id }) => {
+      const result = await checked(normalizeId(page_id), ["page"], async (id) => {
+        const before = await getRawPage(token, id);
+        const target = { kind: "page" as const, id: formatId(id) };
+        return audited("delete-page", { page_id }, { kind: "trash", target, snapshot: before }, () => archivePage(token, id));
+      });
       return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
-    });
+    }));
+
+    registerTool("batch-update-pages", {
+      description: `Update multiple Notion pages' properties in a single call. All updates run concurrently, paced to stay within Notion's rate limit; rate-limited (429) and transient (502/503/504) responses are retried automatically.
 
-    this.server.registerTool("batch-update-pages", {
-      description: `Update multiple Notion pages' properties in a single call. All updates run concurrently for speed.
+Each page is read before it's updated so the batch can be reversed with undo-change (see list-changes).
 
 Use this instead of calling update-page-properties multiple times — e.g. after a quiz session, mark 10 questions as "Done" or "In Progress" in one shot.
 
 PREREQUISITE: Call get-database-schema to know the exact property names and types.
 
-Property value format is the same as update-page-properties / create-database-item. To remove a single tag from a multi_select, re-send the array with that tag omitted.
+Property value format is the same as update-page-properties / create-database-item, raw payloads or simple values. When using simple values, pass database_id (if all pages are in one database) so the schema is read once instead of fetching every page. To remove a single tag from a multi_select, re-send the array with that tag omitted.
 
-Limit: max 50 updates per call (Cloudflare Workers subrequest ceiling). For larger batches, split into multiple calls — each call gets its own budget.
+Limit: max 20 updates per call. Each page is read once (for undo and access checks) and written once, which keeps a full batch under the Cloudflare Workers subrequest ceiling. For larger batches, split into multiple calls — each call gets its own budget.
 
-Returns { summary, results } where summary has total, succeeded, failed, and failed_ids, and each result has: page_id, status ("success" or "error"), and either the updated page or an error message.`,
+Returns { summary, results } where summary has total, succeeded, failed, and failed_ids, and each result has: page_id, status ("success" or "error"), and either the updated page or an error message (with the Notion error code, a retriable flag, and a remediation hint when available).`,
       inputSchema: {
         updates: z
           .array(
@@ -379,20 +914,40 @@ Returns { summary, results } where summary has total, succeeded, failed, and fai
                 .describe("Property values to update (same format as update-page-properties)"),
             }),
           )
-          .max(50)
-          .describe("Array of updates (max 50 per call — split larger batches across multiple calls). Each entry has a page_id and the properties to set."),
+          .max(BATCH_MAX_UPDATES)
+          .describe(`Array of updates (max ${BATCH_MAX_UPDATES} per call — split larger batches across multiple calls). Each entry has a page_id and the properties to set.`),
+        database_id: z
+          .string()
+          .optional()
+          .describe("Database the pages belong to. Optional; lets simple property values be converted without fetching each page."),
         dry_run: z
           .boolean()
           .optional()
           .default(false)
-          .describe("If true, validates the payload and returns the list of page IDs that would be updated, without making any changes."),
+          .describe("If true, validates the payload and checks access to every page, then returns the list of page IDs that would be updated, without making any changes."),
+        rich_text_format: richTextInput,
       },
-    }, async ({ updates, dry_run }) => {
+    }, withToolErrors(async ({ updates, database_id, dry_run, rich_text_format }) => {
       const normalized = updates.map((u) => ({
         page_id: normalizeId(u.page_id),
         properties: u.properties,
       }));
 
+      // Each page is read once, up front: the read is the snapshot undo-change restores, and
+      // it primes the parent cache so the allowlist check needs no further request for it.
+      // Dry runs check access the same way, so they report the same denials.
+      const dataSourceId = database_id ? await dataSourceFor(database_id) : undefined;
+      const pages = new Map<string, any>();
+      if (!dry_run || this.props?.allowlist) {
+        await Promise.all(normalized.map(async (u) => {
+          const page = await getRawPage(token, u.page_id).catch(() => undefined);
+          if (!page) return;
+          rememberParent(page, cache);
+          pages.set(u.page_id, page);
+        }));
+        for (const u of normalized) await assertAllowed({ type: "page_id", id: u.page_id });
+      }
+
       if (dry_run) {
         return {
           content: [{
@@ -406,7 +961,13 @@ Returns { summary, results } where summary has total, succeeded, failed, and fai
         };
       }
 
-      const results = await batchUpdatePages(token, normalized);
+      const before: AuditBefore = { kind: "properties", pages: [] };
+      const results = (await batchUpdatePages(token, normalized, { dataSourceId, cache, snapshot: true, pages, richText: rich_text_format })).map((r) => {
+        if (!("before" in r)) return r;
+        const { before: properties, ...rest } = r;
+        if (properties) before.pages.push({ page_id: r.page_id, properties });
+        return rest;
+      });
       const succeeded = results.filter((r) => r.status === "success").length;
       const failed = results.filter((r) => r.status === "error").length;
       const failedIds = results.filter((r) => r.status === "error").map((r) => r.page_id);
@@ -415,10 +976,11 @@ Returns { summary, results } where summary has total, succeeded, failed, and fai
         summary: { total: results.length, succeeded, failed, failed_ids: failedIds },
         results,
       };
+      audit.record({ tool: "batch-update-pages", args: { updates, database_id }, before, result: response, status: succeeded > 0 ? "applied" : "failed" });
       return { content: [{ type: "text", text: JSON.stringify(response, null, 2) }] };
-    });
+    }));
 
-    this.server.registerTool("create-database", {
+    registerTool("create-database", {
       description: `Create a new Notion database as a child of an existing page.
 
 Returns the new database's data_source id (use this as the database_id for other tools), the container database id, title, and url.
@@ -449,32 +1011,39 @@ Available property types: title, rich_text, number, select, multi_select, status
           .optional()
           .describe("Column definitions. Key = column name, value = type config. A title column is created automatically."),
       },
-    }, async ({ parent_page_id, title, properties }) => {
-      const result = await createDatabase(token, {
-        parentPageId: normalizeId(parent_page_id),
-        title,
-        properties,
-      });
+    }, withToolErrors(async ({ parent_page_id, title, properties }) => {
+      const result = await checked(normalizeId(parent_page_id), ["page"], (parentPageId) =>
+        createDatabase(token, { parentPageId, title, properties }),
+      );
       return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
-    });
+    }));
 
-    this.server.registerTool("delete-database", {
+    registerTool("delete-database", {
       description: `Archive (soft-delete) a Notion database. The database is moved to Notion's trash and can be restored from the Notion UI.
 
-Use the "id" (data_source ID) returned by create-database or list-databases. This is not reversible via the API — only through Notion's trash UI.`,
+Pass the "id" (data_source ID) returned by create-database or list-databases to archive that data source. Passing the container "databaseId" archives the whole database, including all of its data sources. It can be restored with undo-change (see list-changes) or from Notion's trash.`,
       inputSchema: {
-        database_id: z.string().describe("Database ID (data_source ID from list-databases or create-database)"),
+        database_id: z.string().describe("Data source ID from list-databases or create-database, or a container database ID to archive the whole database"),
       },
-    }, async ({ database_id }) => {
-      const result = await archiveDatabase(token, normalizeId(database_id));
+    }, withToolErrors(async ({ database_id }) => {
+      const resolved = await resolveDatabaseTarget(token, normalizeId(database_id), cache);
+      for (const ds of resolved.kind === "database" ? (resolved.dataSources ?? []) : [resolved]) {
+        await assertAllowed({ type: "data_source_id", id: ds.id });
+      }
+      const target = { kind: resolved.kind === "database" ? ("database" as const) : ("data_source" as const), id: resolved.id };
+      const result = await audited("delete-database", { database_id }, { kind: "trash", target }, () => archiveDatabase(token, resolved));
       return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
-    });
+    }));
 
-    this.server.registerTool("create-page", {
+    registerTool("create-page", {
       description: `Create a new standalone Notion page as a child of an existing page. The page can include rich content blocks.
 
 NOTE: To add a row to a database, use create-database-item instead — this tool is for freeform pages only.
 
+## Markdown (recommended)
+
+Pass "markdown" instead of "children" and it is converted to Notion blocks for you: # headings, paragraphs, nested "-"/"1." lists, "- [ ]"/"- [x]" to-dos, \`\`\`language code fences, > quotes, "> 💡 text" or "> [!NOTE]" callouts, --- dividers, | tables |, <details><summary>…</summary>…</details> toggles, $$ equations $$, ![caption](url) or ![caption](<upload-id>) images, and inline **bold**, *italic*, \`code\`, ~~strikethrough~~, <u>underline</u>, [links](https://…) and $inline equations$. Long text and large documents are split to fit Notion's limits automatically.
+
 ## Content blocks (children)
 
 Each block is an object with "object": "block", a "type", and the type-specific content:
@@ -502,6 +1071,13 @@ Other:
   { "object": "block", "type": "quote", "quote": { "rich_text": [{ "type": "text", "text": { "content": "A wise quote" } }] } }
   { "object": "block", "type": "callout", "callout": { "rich_text": [{ "type": "text", "text": { "content": "Important note" } }], "icon": { "emoji": "💡" } } }
 
+Images, files and PDFs (from a URL, or a file upload ID from upload-file):
+  { "object": "block", "type": "image", "image": { "type": "external", "external": { "url": "https://…/chart.png" } } }
+  { "object": "block", "type": "pdf", "pdf": { "type": "file_upload", "file_upload": { "id": "<upload-id>" } } }
+  { "object": "block", "type": "file", "file": { "type": "file_upload", "file_upload": { "id": "<upload-id>" } } }
+
+Any "rich_text" may also be given as a string (literal text, or inline Markdown with rich_text_format "markdown") or as compact spans ([{ "text": "bold", "bold": true }]).
+
 Rich text formatting (applies inside any rich_text array):
   Bold:          { "type": "text", "text": { "content": "bold" }, "annotations": { "bold": true } }
   Italic:        { "type": "text", "text": { "content": "italic" }, "annotations": { "italic": true } }
@@ -513,21 +1089,470 @@ Rich text formatting (applies inside any rich_text array):
         children: z
           .array(z.record(z.string(), z.any()))
           .optional()
-          .describe("Array of block objects for the page body. Omit for an empty page."),
+          .describe("Array of block objects for the page body. Omit (along with markdown) for an empty page."),
+        markdown: z
+          .string()
+          .optional()
+          .describe("Page body as Markdown, as an alternative to children."),
+        rich_text_format: richTextInput,
       },
-    }, async ({ parent_page_id, title, children }) => {
-      const page = await createPage(token, {
-        parent: { page_id: normalizeId(parent_page_id) },
-        properties: {
-          title: { title: [{ text: { content: title } }] },
+    }, withToolErrors(async ({ parent_page_id, title, children, markdown, rich_text_format }) => {
+      const page = await checked(normalizeId(parent_page_id), ["page"], (pageId) =>
+        createPage(token, {
+          parent: { page_id: pageId },
+          properties: {
+            title: { title: [{ text: { content: title } }] },
+          },
+          children: blocksFrom(children, markdown),
+          richText: rich_text_format,
+        }),
+      );
+      return { content: [{ type: "text", text: JSON.stringify(page, null, 2) }] };
+    }));
+
+    // ── Audit log ──
+
+    registerTool("list-changes", {
+      description: `List changes made in this session by the mutating tools (update-page-properties, batch-update-pages, update-block, delete-block, delete-page, update-database, delete-database), newest first.
+
+Returns entries with id, tool, status ("applied", "failed" or "undone"), created_at, undone_at, targets (the page, block or database IDs touched) and args. Pass change_id to get one entry in full, including the prior state ("before") and the result.
+
+Use the id with undo-change to reverse a change.`,
+      inputSchema: {
+        change_id: z.number().int().optional().describe("Show this change in full instead of listing."),
+        tool: z.string().optional().describe('Only changes made by this tool, e.g. "delete-block".'),
+        limit: z.number().int().min(1).max(100).optional().describe("Max entries to list (1-100, default 20)."),
+      },
+    }, withToolErrors(async ({ change_id, tool, limit }) => {
+      if (change_id !== undefined) {
+        const entry = audit.get(change_id);
+        if (!entry) throw new Error(`No change with ID ${change_id}. Use list-changes to see recorded changes.`);
+        return { content: [{ type: "text", text: JSON.stringify(entry, null, 2) }] };
+      }
+      const entries = audit.list({ limit: limit ?? 20, tool }).map((e) => ({
+        id: e.id,
+        tool: e.tool,
+        status: e.status,
+        created_at: e.created_at,
+        undone_at: e.undone_at,
+        targets: auditTargets(e.before),
+        args: e.args,
+      }));
+      return { content: [{ type: "text", text: JSON.stringify(entries, null, 2) }] };
+    }));
+
+    registerTool("undo-change", {
+      description: `Reverse a change recorded by list-changes, restoring the state from before it:
+- update-page-properties / batch-update-pages: the changed properties get their previous values back
+- update-block: the block's previous content is written back
+- delete-block / delete-page / delete-database: the item is taken out of the trash
+- update-database: renamed or edited columns get their old name and config back, removed columns are re-created and added ones removed. Values in removed columns are lost in Notion and can't be brought back.
+
+Edits made after the change to the same properties, block or columns are overwritten. A change can be undone once.`,
+      inputSchema: {
+        change_id: z.number().int().describe("Change ID from list-changes"),
+      },
+    }, withToolErrors(async ({ change_id }) => {
+      const entry = audit.get(change_id);
+      if (!entry) throw new Error(`No change with ID ${change_id}. Use list-changes to see recorded changes.`);
+      if (missingScope(toolScope(entry.tool))) return scopeError(`undo-change for ${entry.tool}`, toolScope(entry.tool));
+      const result = await undoChange(token, entry, cache);
+      audit.markUndone(change_id);
+      return { content: [{ type: "text", text: JSON.stringify({ change_id, tool: entry.tool, undone: true, result }, null, 2) }] };
+    }));
+
+    registerTool("get-recent-changes", {
+      description: `List recent changes in the workspace pushed by Notion webhooks: page, database/data source and comment events (created, content or properties updated, moved, deleted, and so on), oldest first. Cheaper than re-querying when you only need to know what changed.
+
+Returns: { events, has_more, next_cursor } where each event has cursor, id, type (e.g. "page.properties_updated"), timestamp, entity ({ id, type }), authors and data (e.g. parent, updated_properties).
+
+Pass next_cursor back as cursor to get only newer events. Events are kept for 7 days. Empty unless a Notion webhook subscription points at this server's /webhooks/notion.`,
+      inputSchema: {
+        cursor: z.string().optional().describe("next_cursor from a previous call. Omit for the most recent events."),
+        types: z.array(z.string()).optional().describe('Only these event types, e.g. ["page.created", "comment.created"].'),
+        limit: z.number().optional().describe("Max events to return (1-200, default 50)."),
+      },
+    }, withToolErrors(async ({ cursor, types, limit }) => {
+      const result = await recentChanges(this.env, this.props!.workspaceId, { cursor, types, limit });
+      result.events = await filterAllowed(result.events, eventTarget);
+      return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+    }));
+
+    // ── Watches ──
+    // The snapshot is taken when the watch starts; each poll then emits
+    // notifications/resources/updated for the database or page resource with the diff.
+
+    const watches = createWatchStore(this.ctx.storage.sql);
+    const startWatch = async (kind: WatchKind, targetId: string, interval = WATCH_DEFAULT_INTERVAL_SECONDS) => {
+      const existing = watches.list().find((w) => w.kind === kind && w.target_id === targetId);
+      if (existing) return existing;
+      const { title, rows } = await snapshotTarget(token, kind, targetId, cache);
+      const id = crypto.randomUUID();
+      const schedule = await this.scheduleEvery(interval, "pollWatch", { id });
+      const watch: Watch = {
+        id,
+        kind,
+        target_id: targetId,
+        title,
+        uri: kind === "page" ? `notion://page/${targetId}` : `notion://data-source/${targetId}`,
+        interval_seconds: interval,
+        schedule_id: schedule.id,
+        polls: 0,
+        polled_at: new Date().toISOString(),
+        seen_at: Date.now(),
+        last_change: null,
+      };
+      watches.insert(watch);
+      watches.putRows(id, rows);
+      return watch;
+    };
+    const describeWatch = (w: Watch) => ({
+      id: w.id,
+      kind: w.kind,
+      target_id: w.target_id,
+      title: w.title,
+      uri: w.uri,
+      interval_seconds: w.interval_seconds,
+      polls: w.polls,
+      last_polled_at: w.polled_at,
+      last_change: w.last_change ? JSON.parse(w.last_change) : null,
+    });
+    const intervalSeconds = z
+      .number()
+      .int()
+      .min(WATCH_MIN_INTERVAL_SECONDS)
+      .max(WATCH_MAX_INTERVAL_SECONDS)
+      .optional()
+      .describe(`Seconds between checks (${WATCH_MIN_INTERVAL_SECONDS}-${WATCH_MAX_INTERVAL_SECONDS}, default ${WATCH_DEFAULT_INTERVAL_SECONDS}).`);
+
+    registerTool("watch-database", {
+      description: `Watch a database for changes. It is checked every interval_seconds, and each change is sent as a notifications/resources/updated notification for notion://data-source/{id}, with _meta.diff listing the rows added, changed (with the property names that changed) and removed.
+
+Edits are picked up on the next check; removed rows are noticed within about ten checks. Watches end with the session, with unwatch, or after an hour with no client connected. Watching a database that is already watched returns the existing watch.`,
+      inputSchema: {
+        database_id: z.string().describe("Database ID from list-databases, or a Notion URL"),
+        interval_seconds: intervalSeconds,
+      },
+    }, withToolErrors(async ({ database_id, interval_seconds }) => {
+      const dataSourceId = await dataSourceFor(database_id);
+      const watch = await startWatch("data_source", dataSourceId, interval_seconds);
+      return { content: [{ type: "text", text: JSON.stringify(describeWatch(watch), null, 2) }] };
+    }));
+
+    registerTool("watch-page", {
+      description: `Watch a page for changes. It is checked every interval_seconds, and each change is sent as a notifications/resources/updated notification for notion://page/{id}, with _meta.diff naming the properties that changed (an empty list means only the body changed), or the page under "removed" if it was deleted.
+
+Watches end with the session, with unwatch, or after an hour with no client connected.`,
+      inputSchema: {
+        page_id: z.string().describe("Page ID or Notion URL"),
+        interval_seconds: intervalSeconds,
+      },
+    }, withToolErrors(async ({ page_id, interval_seconds }) => {
+      const watch = await checked(formatId(normalizeId(page_id)), ["page"], (pageId) =>
+        startWatch("page", pageId, interval_seconds),
+      );
+      return { content: [{ type: "text", text: JSON.stringify(describeWatch(watch), null, 2) }] };
+    }));
+
+    registerTool("list-watches", {
+      description: "List this session's active watches with their resource URI, interval, number of checks so far and the most recent change seen.",
+    }, withToolErrors(async () => {
+      return { content: [{ type: "text", text: JSON.stringify(watches.list().map(describeWatch), null, 2) }] };
+    }));
+
+    registerTool("unwatch", {
+      description: "Stop a watch started with watch-database or watch-page.",
+      inputSchema: { watch_id: z.string().describe("Watch ID from watch-database, watch-page or list-watches") },
+    }, withToolErrors(async ({ watch_id }) => {
+      const watch = watches.get(watch_id);
+      if (!watch) throw new Error(`No watch with ID ${watch_id}. Use list-watches to see active watches.`);
+      await this.endWatch(watch);
+      return { content: [{ type: "text", text: `Stopped watching ${watch.title} (${watch.uri}).` }] };
+    }));
+
+    // ── Resources ──
+    // Resources and prompts only read, so they need notion.read. As with tools, they are
+    // only registered with it, and each call checks the current grant again.
+    if (!granted.has("notion.read")) return;
+    const assertReadScope = (name: string) => {
+      if (missingScope("notion.read")) throw new Error(scopeMessage(name, "notion.read"));
+    };
+
+    // Databases and pages can be attached as context without a tool call. Data sources
+    // are listed from search; pages are read by ID (find them with the search tool).
+
+    this.server.registerResource(
+      "data-source",
+      new ResourceTemplate("notion://data-source/{id}", {
+        list: async () => {
+          assertReadScope("data-source");
+          const dbs = await filterAllowed(await listDatabases(token, cache), (db) => ({ type: "data_source_id", id: db.id }));
+          return {
+            resources: dbs.map((db) => ({
+              uri: `notion://data-source/${db.id}`,
+              name: db.title,
+              mimeType: "application/json",
+              annotations: { lastModified: db.last_edited_time },
+            })),
+          };
+        },
+      }),
+      {
+        title: "Notion database",
+        description: `A Notion database (data source): its schema as JSON, then up to ${RESOURCE_ROWS} rows as JSON Lines. Use the export-database tool for more rows.`,
+        mimeType: "application/json",
+      },
+      async (uri, { id }) => {
+        assertReadScope("data-source");
+        const dataSourceId = await dataSourceFor(String(id));
+        const schema = await getDatabaseSchema(token, dataSourceId, cache);
+        const { data, ...rows } = await exportDatabase(token, dataSourceId, { format: "jsonl", maxRows: RESOURCE_ROWS }, cache);
+        return {
+          contents: [
+            { uri: uri.href, mimeType: "application/json", text: JSON.stringify({ ...schema, ...rows }, null, 2) },
+            { uri: `notion://data-source/${dataSourceId}/export.jsonl`, mimeType: "application/jsonl", text: data },
+          ],
+        };
+      },
+    );
+
+    this.server.registerResource(
+      "page",
+      new ResourceTemplate("notion://page/{id}", { list: undefined }),
+      {
+        title: "Notion page",
+        description: "A Notion page as Markdown: properties as YAML front matter, then the body.",
+        mimeType: "text/markdown",
+      },
+      async (uri, { id }) => {
+        assertReadScope("page");
+        const pageId = formatId(normalizeId(String(id)));
+        const markdown = await checked(pageId, ["page"], (pid) => getPageMarkdown(token, pid));
+        return { contents: [{ uri: uri.href, mimeType: "text/markdown", text: markdown }] };
+      },
+    );
+
+    // ── Prompts ──
+    // Each prompt fetches what it needs up front and embeds it, so the model starts with
+    // the schema and data instead of spending tool calls on them.
+
+    const databaseMessages = async (dataSourceId: string, filter?: any): Promise<GetPromptResult["messages"]> => {
+      const schema = await getDatabaseSchema(token, dataSourceId, cache);
+      const { data, row_count, has_more } = await exportDatabase(token, dataSourceId, { format: "jsonl", filter, maxRows: PROMPT_ROWS }, cache);
+      const note = has_more ? ` (the first ${row_count}; more rows exist — use export-database or query-database for the rest)` : "";
+      return [
+        {
+          role: "user",
+          content: { type: "resource", resource: { uri: `notion://data-source/${dataSourceId}`, mimeType: "application/json", text: JSON.stringify(schema, null, 2) } },
+        },
+        {
+          role: "user",
+          content: { type: "text", text: `Rows, one JSON object per line${note}:\n\n${data || "(no rows)"}` },
         },
-        children,
+      ];
+    };
+
+    this.server.registerPrompt("triage-database", {
+      title: "Triage a Notion database",
+      description: "Review a database's items and propose status, priority and owner changes for anything stale, incomplete or unassigned.",
+      argsSchema: {
+        database_id: z.string().describe("Database ID or Notion URL"),
+        where: z.string().optional().describe('Optional filter expression, e.g. Status != "Done"'),
+      },
+    }, async ({ database_id, where }) => {
+      assertReadScope("triage-database");
+      checkWhere(where);
+      const dataSourceId = await dataSourceFor(database_id);
+      const data = await databaseMessages(dataSourceId, await filterFor(dataSourceId, where));
+      return {
+        description: "Triage a Notion database",
+        messages: [
+          {
+            role: "user",
+            content: {
+              type: "text",
+              text: `Triage this Notion database. Its schema and items are below.
+
+1. Flag items that look stale (not edited in a long time but still open), are missing key fields (status, owner, due date, priority — whichever the schema has), or look like duplicates.
+2. For each flagged item, propose concrete changes using the exact property names and option values from the schema.
+3. Summarise the proposals in a table (item, problem, proposed change), then ask me which to apply.
+
+Only after I confirm, apply the changes with batch-update-pages (database_id: ${dataSourceId}).`,
+            },
+          },
+          ...data,
+        ],
+      };
+    });
+
+    this.server.registerPrompt("summarize-page", {
+      title: "Summarize a Notion page",
+      description: "Summarize a page's content, decisions and open action items.",
+      argsSchema: {
+        page_id: z.string().describe("Page ID or Notion URL"),
+      },
+    }, async ({ page_id }) => {
+      assertReadScope("summarize-page");
+      const pageId = formatId(normalizeId(page_id));
+      const markdown = await checked(pageId, ["page"], (id) => getPageMarkdown(token, id));
+      return {
+        description: "Summarize a Notion page",
+        messages: [
+          {
+            role: "user",
+            content: {
+              type: "text",
+              text: "Summarize the Notion page below (properties as front matter, then the body). Give a short overview, the key points or decisions, and any open questions or action items with their owners if named. Keep it brief and don't invent details that aren't on the page.",
+            },
+          },
+          {
+            role: "user",
+            content: { type: "resource", resource: { uri: `notion://page/${pageId}`, mimeType: "text/markdown", text: markdown } },
+          },
+        ],
+      };
+    });
+
+    this.server.registerPrompt("weekly-status", {
+      title: "Weekly status update",
+      description: "Write a status update from a database's items edited in a date range (default: the last 7 days).",
+      argsSchema: {
+        database_id: z.string().describe("Database ID or Notion URL"),
+        since: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe("Start date, YYYY-MM-DD (default: 7 days ago)"),
+        until: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe("End date, YYYY-MM-DD (default: today)"),
+      },
+    }, async ({ database_id, since, until }) => {
+      assertReadScope("weekly-status");
+      const start = since ?? new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+      const end = until ?? new Date().toISOString().slice(0, 10);
+      const filter = {
+        and: [
+          { timestamp: "last_edited_time", last_edited_time: { on_or_after: start } },
+          { timestamp: "last_edited_time", last_edited_time: { on_or_before: end } },
+        ],
+      };
+      const dataSourceId = await dataSourceFor(database_id);
+      const data = await databaseMessages(dataSourceId, filter);
+      return {
+        description: `Status update for ${start} to ${end}`,
+        messages: [
+          {
+            role: "user",
+            content: {
+              type: "text",
+              text: `Write a weekly status update covering ${start} to ${end}, based on the database items below (only items edited in that range are included).
+
+Group items by status: what was completed, what is in progress, and what is blocked or at risk. Mention owners and due dates where the schema has them, and call out anything overdue. Keep it concise enough to paste into a team channel.`,
+            },
+          },
+          ...data,
+        ],
+      };
+    });
+  }
+
+  // Scheduled by watch-database and watch-page. Alarms can wake the Durable Object
+  // without starting the MCP session, so props are read from storage and the
+  // notification is only sent when the session is running; the diff is kept either way.
+  async pollWatch({ id }: { id: string }, schedule?: { id: string }) {
+    const watches = createWatchStore(this.ctx.storage.sql);
+    const watch = watches.get(id);
+    const props = this.props ?? (await this.ctx.storage.get<Props>("props"));
+    if (!watch || !props) {
+      if (schedule) await this.cancelSchedule(schedule.id);
+      return;
+    }
+
+    const now = Date.now();
+    if ([...this.getConnections()].length > 0) {
+      watches.update(id, { seen_at: now });
+    } else if (now - watch.seen_at > WATCH_IDLE_MS) {
+      await this.endWatch(watch);
+      return;
+    }
+
+    const cache = createSqlCache(this.ctx.storage.sql, props.workspaceId);
+    const { diff, gone } = await pollTarget(await this.notionToken(props), watches, watch, cache);
+    if (gone) await this.endWatch(watch);
+    if (isEmptyDiff(diff)) return;
+
+    const change = { at: new Date(now).toISOString(), summary: summarizeDiff(diff), ...diff };
+    if (!gone) watches.update(id, { last_change: JSON.stringify(change) });
+    if (!this.props) return;
+    // Without an open notification stream the change is still visible in list-watches.
+    await this.server.server.sendResourceUpdated({ uri: watch.uri, _meta: { diff: change } }).catch(() => {});
+  }
+
+  // Registers the grant's Notion token for refresh and returns it, to pass to notion.ts.
+  // Credentials an earlier session already refreshed are picked up from KV.
+  private async notionToken(props: Props): Promise<string> {
+    const token = props.accessToken;
+    const grantRefreshToken = props.refreshToken;
+    if (!grantRefreshToken) return token;
+
+    const stored = await loadRefreshedCredentials(this.env.OAUTH_KV, grantRefreshToken);
+    registerTokenRefresh(token, stored ?? props, async (credentials) => {
+      // The client may have refreshed its own token meanwhile, which refreshes the grant's
+      // Notion token too; the old refresh token is then spent, so use the newer one.
+      const latest = this.props;
+      if (latest && latest.accessToken !== token && latest.accessToken !== credentials.accessToken) return latest;
+
+      const next = await refreshNotionToken({
+        clientId: this.env.NOTION_OAUTH_CLIENT_ID,
+        clientSecret: this.env.NOTION_OAUTH_CLIENT_SECRET,
+        credentials,
       });
-      return { content: [{ type: "text", text: JSON.stringify(page, null, 2) }] };
+      await saveRefreshedCredentials(this.env.OAUTH_KV, grantRefreshToken, next);
+      return next;
     });
+    return token;
   }
+
+  private async endWatch(watch: Watch) {
+    await this.cancelSchedule(watch.schedule_id);
+    createWatchStore(this.ctx.storage.sql).delete(watch.id);
+  }
+}
+
+// Tools that write page content accept either Notion block JSON or Markdown.
+function blocksFrom(children: any[] | undefined, markdown: string | undefined): any[] | undefined {
+  if (children && markdown !== undefined) throw new Error("Pass either children or markdown, not both.");
+  return markdown !== undefined ? markdownToBlocks(markdown) : children;
+}
+
+// A call outside the grant's scopes.
+function scopeMessage(name: string, scope: Scope): string {
+  return `${name} needs the ${scope} scope, which this authorization doesn't include. Re-authorize and approve ${scope} to use it.`;
+}
+
+function scopeError(tool: string, scope: Scope): CallToolResult {
+  const payload = { error: "insufficient_scope", message: scopeMessage(tool, scope) };
+  return { isError: true, content: [{ type: "text", text: JSON.stringify(payload, null, 2) }] };
 }
 
+// Turns failures into MCP tool errors instead of letting them escape as opaque exceptions.
+// Notion API errors carry their status, code, request_id and a remediation hint; a revoked
+// Notion token asks for re-authorization.
+function withToolErrors<A extends unknown[]>(
+  handler: (...args: A) => Promise<CallToolResult>,
+): (...args: A) => Promise<CallToolResult> {
+  return async (...args) => {
+    try {
+      return await handler(...args);
+    } catch (error) {
+      const payload =
+        error instanceof NotionApiError
+          ? error.toJSON()
+          : error instanceof ReauthorizationRequiredError
+            ? { error: "reauthorization_required", message: error.message }
+            : { error: "tool_error", message: error instanceof Error ? error.message : String(error) };
+      return { isError: true, content: [{ type: "text", text: JSON.stringify(payload, null, 2) }] };
+    }
+  };
+}
+
+export { NotionWebhooks } from "./webhooks";
+
 const oauthProvider = new OAuthProvider({
   apiHandler: NotionMCP.serve("/mcp"),
   apiRoute: "/mcp",
@@ -535,6 +1560,13 @@ const oauthProvider = new OAuthProvider({
   authorizeEndpoint: "/authorize",
   tokenEndpoint: "/token",
   clientRegistrationEndpoint: "/register",
+  scopesSupported: ALL_SCOPES,
+  // Keeps the Notion credentials in the grant current as the client refreshes its token.
+  tokenExchangeCallback: async ({ grantType, props }) => {
+    if (grantType !== GrantType.REFRESH_TOKEN) return;
+    const newProps = await refreshGrantProps(env, props);
+    return newProps && { newProps };
+  },
 });
 
 export default {
@@ -548,7 +1580,7 @@ export default {
         JSON.stringify({
           resource: `${origin}/mcp`,
           authorization_servers: [origin],
-          scopes_supported: [],
+          scopes_supported: ALL_SCOPES,
         }),
         {
           headers: {
@@ -559,6 +1591,11 @@ export default {
       );
     }
 
+    // Notion webhook events, authenticated by their signature rather than OAuth
+    if (url.pathname === "/webhooks/notion") {
+      return handleNotionWebhook(request, env);
+    }
+
     return (oauthProvider as any).fetch(request, env, ctx);
   },
 };
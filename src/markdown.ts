@@ -0,0 +1,726 @@
+// Rendering of Notion rich text and block trees as GitHub-flavoured Markdown.
+
+// ── Rich text ──
+
+const MARKDOWN_SPECIALS = /([\\`*_~[\]])/g;
+
+function escapeMarkdown(text: string): string {
+  return text.replace(MARKDOWN_SPECIALS, "\\$1");
+}
+
+// Emphasis markers can't hug whitespace (`** bold**` isn't bold), so keep it outside them.
+function wrap(text: string, marker: string, closing = marker): string {
+  const match = text.match(/^(\s*)(.*?)(\s*)$/s)!;
+  if (!match[2]) return text;
+  return `${match[1]}${marker}${match[2]}${closing}${match[3]}`;
+}
+
+function notionUrl(id: string): string {
+  return `https://www.notion.so/${id.replace(/-/g, "")}`;
+}
+
+function renderMention(span: any): string {
+  const mention = span.mention ?? {};
+  const text = escapeMarkdown(span.plain_text ?? "");
+  switch (mention.type) {
+    case "user":
+      return text.startsWith("@") ? text : `@${text}`;
+    case "page":
+      return `[${text}](${span.href ?? notionUrl(mention.page.id)})`;
+    case "database":
+      return `[${text}](${span.href ?? notionUrl(mention.database.id)})`;
+    case "link_preview":
+      return `[${text}](${mention.link_preview.url})`;
+    default:
+      return span.href ? `[${text}](${span.href})` : text;
+  }
+}
+
+function spanLink(span: any): string | undefined {
+  return span.type === "text" ? (span.text?.link?.url ?? span.href ?? undefined) : undefined;
+}
+
+function renderSpan(span: any): string {
+  if (span.type === "equation") return `$${span.equation.expression}$`;
+  if (span.type === "mention") return renderMention(span);
+
+  const annotations = span.annotations ?? {};
+  const raw: string = span.text?.content ?? span.plain_text ?? "";
+  let out = annotations.code ? `\`${raw}\`` : escapeMarkdown(raw);
+  if (annotations.bold) out = wrap(out, "**");
+  if (annotations.italic) out = wrap(out, "*");
+  if (annotations.strikethrough) out = wrap(out, "~~");
+  if (annotations.underline) out = wrap(out, "<u>", "</u>");
+  return out;
+}
+
+export function richTextToMarkdown(richText: any[] | undefined): string {
+  const spans = richText ?? [];
+  let out = "";
+  for (let i = 0; i < spans.length; i++) {
+    const url = spanLink(spans[i]);
+    if (!url) {
+      out += renderSpan(spans[i]);
+      continue;
+    }
+    // Consecutive spans sharing a link (e.g. "a **bold** link") render as one Markdown link.
+    let label = renderSpan(spans[i]);
+    while (i + 1 < spans.length && spanLink(spans[i + 1]) === url) label += renderSpan(spans[++i]);
+    out += `[${label}](${url})`;
+  }
+  return out;
+}
+
+function plainText(richText: any[] | undefined): string {
+  return (richText ?? []).map((t: any) => t.plain_text ?? t.text?.content ?? "").join("");
+}
+
+// ── Blocks ──
+
+const LIST_TYPES = new Set(["bulleted_list_item", "numbered_list_item", "to_do"]);
+
+function indent(text: string, prefix: string): string {
+  return text
+    .split("\n")
+    .map((line) => (line ? prefix + line : line))
+    .join("\n");
+}
+
+function quote(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => (line ? `> ${line}` : ">"))
+    .join("\n");
+}
+
+function fileUrl(file: any): string {
+  return file?.file?.url ?? file?.external?.url ?? "";
+}
+
+function renderTable(block: any): string {
+  const rows: string[][] = (block.children ?? []).map((row: any) =>
+    (row.table_row?.cells ?? []).map((cell: any[]) => richTextToMarkdown(cell).replace(/\|/g, "\\|").replace(/\n/g, "<br>")),
+  );
+  if (rows.length === 0) return "";
+
+  const width = block.table?.table_width ?? Math.max(...rows.map((r) => r.length));
+  const pad = (row: string[]) => Array.from({ length: width }, (_, i) => row[i] ?? "");
+  const line = (row: string[]) => `| ${pad(row).join(" | ")} |`;
+
+  // GFM tables need a header row; without a column header Notion's first row stands in.
+  const [header, ...body] = block.table?.has_column_header === false ? [Array(width).fill(""), ...rows] : rows;
+  return [line(header), line(Array(width).fill("---")), ...body.map(line)].join("\n");
+}
+
+function renderBlock(block: any, listIndex: number): string {
+  const type = block.type;
+  const content = block[type] ?? {};
+  const text = richTextToMarkdown(content.rich_text);
+  const children = block.children ? renderBlocks(block.children) : "";
+
+  switch (type) {
+    case "paragraph":
+      return [text, children].filter(Boolean).join("\n\n");
+    case "heading_1":
+    case "heading_2":
+    case "heading_3": {
+      // Toggleable headings render expanded: the heading followed by its content.
+      const heading = `${"#".repeat(Number(type.slice(-1)))} ${text}`;
+      return [heading, children].filter(Boolean).join("\n\n");
+    }
+    case "bulleted_list_item":
+    case "numbered_list_item":
+    case "to_do": {
+      const marker =
+        type === "numbered_list_item" ? `${listIndex}. ` : type === "to_do" ? `- [${content.checked ? "x" : " "}] ` : "- ";
+      const item = `${marker}${text}`;
+      return children ? `${item}\n${indent(children, " ".repeat(type === "numbered_list_item" ? marker.length : 2))}` : item;
+    }
+    case "toggle":
+      return `<details>\n<summary>${text}</summary>\n\n${children}\n\n</details>`;
+    case "code": {
+      const language = content.language && content.language !== "plain text" ? content.language : "";
+      const code = plainText(content.rich_text);
+      const fence = code.includes("```") ? "````" : "```";
+      return `${fence}${language}\n${code}\n${fence}`;
+    }
+    case "quote":
+      return quote([text, children].filter(Boolean).join("\n\n"));
+    case "callout": {
+      const icon = content.icon?.emoji ? `${content.icon.emoji} ` : "";
+      return quote([`${icon}${text}`, children].filter(Boolean).join("\n\n"));
+    }
+    case "divider":
+      return "---";
+    case "equation":
+      return `$$\n${content.expression}\n$$`;
+    case "table":
+      return renderTable(block);
+    case "image": {
+      const caption = plainText(content.caption);
+      return `![${escapeMarkdown(caption)}](${fileUrl(content)})`;
+    }
+    case "file":
+    case "pdf":
+    case "video":
+    case "audio": {
+      const name = plainText(content.caption) || content.name || type;
+      return `[${escapeMarkdown(name)}](${fileUrl(content)})`;
+    }
+    case "bookmark":
+    case "embed":
+    case "link_preview": {
+      const caption = plainText(content.caption);
+      return `[${escapeMarkdown(caption || content.url)}](${content.url})`;
+    }
+    case "child_page":
+      return `[${escapeMarkdown(content.title || "Untitled")}](${notionUrl(block.id)})`;
+    case "child_database":
+      return `[${escapeMarkdown(content.title || "Untitled database")}](${notionUrl(block.id)})`;
+    case "link_to_page": {
+      const id = content.page_id ?? content.database_id;
+      return id ? `[${notionUrl(id)}](${notionUrl(id)})` : "";
+    }
+    case "column_list":
+    case "column":
+    case "synced_block":
+      return children;
+    case "table_of_contents":
+    case "breadcrumb":
+      return "";
+    default:
+      return text || `<!-- unsupported block: ${type} -->`;
+  }
+}
+
+export function renderBlocks(blocks: any[]): string {
+  let out = "";
+  let prev: any;
+  let listIndex = 0;
+
+  for (const block of blocks) {
+    listIndex = block.type === "numbered_list_item" && prev?.type === "numbered_list_item" ? listIndex + 1 : 1;
+    const rendered = renderBlock(block, listIndex);
+    if (!rendered) continue;
+
+    // Items of the same list sit on consecutive lines; everything else is a separate paragraph.
+    const sameList = prev && LIST_TYPES.has(block.type) && LIST_TYPES.has(prev.type);
+    out += out ? (sameList ? "\n" : "\n\n") + rendered : rendered;
+    prev = block;
+  }
+
+  return out;
+}
+
+// ── Front matter ──
+
+// JSON scalars, arrays and objects are valid YAML flow values.
+export function renderFrontMatter(fields: Record<string, unknown>): string {
+  const lines = Object.entries(fields).map(([key, value]) => {
+    const yamlKey = /^[\w-][\w -]*$/.test(key) && !key.endsWith(" ") ? key : JSON.stringify(key);
+    return `${yamlKey}: ${JSON.stringify(value ?? null)}`;
+  });
+  return `---\n${lines.join("\n")}\n---`;
+}
+
+// ── Parsing Markdown into Notion rich text and blocks ──
+
+// Notion limits: 2000 characters per rich text object, 100 rich text objects per array.
+const MAX_TEXT_LENGTH = 2000;
+const MAX_RICH_TEXT_ITEMS = 100;
+
+type Annotations = { bold?: boolean; italic?: boolean; strikethrough?: boolean; underline?: boolean; code?: boolean };
+
+function textSpan(content: string, annotations: Annotations, link?: string): any {
+  return {
+    type: "text",
+    text: { content, ...(link ? { link: { url: link } } : {}) },
+    ...(Object.keys(annotations).length > 0 ? { annotations: { ...annotations } } : {}),
+  };
+}
+
+// Finds the closing delimiter for an inline construct, skipping backslash escapes.
+function findClosing(text: string, delimiter: string, from: number): number {
+  for (let i = from; i <= text.length - delimiter.length; i++) {
+    if (text[i] === "\\") {
+      i++;
+      continue;
+    }
+    if (text.startsWith(delimiter, i) && i > from) {
+      // In a run like `***`, close on its last delimiter so `**a *b***` nests properly.
+      while (text[i + delimiter.length] === delimiter[0]) i++;
+      return i;
+    }
+  }
+  return -1;
+}
+
+// Finds the `](url)` that closes a link label opened just before `from`, allowing nested brackets.
+function findLinkEnd(text: string, from: number): { labelEnd: number; url: string; end: number } | undefined {
+  let depth = 0;
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === "\\") {
+      i++;
+    } else if (text[i] === "[") {
+      depth++;
+    } else if (text[i] === "]") {
+      if (depth > 0) {
+        depth--;
+        continue;
+      }
+      const match = text.slice(i).match(/^\]\(\s*<?([^\s)>]+)>?(?:\s+"[^"]*")?\s*\)/);
+      return match ? { labelEnd: i, url: match[1], end: i + match[0].length } : undefined;
+    }
+  }
+  return undefined;
+}
+
+const NOTION_PAGE_URL = /^https:\/\/www\.notion\.so\/([0-9a-f]{32})$/;
+
+function parseInline(text: string, annotations: Annotations, link: string | undefined, out: any[]) {
+  let buffer = "";
+  const flush = () => {
+    if (buffer) out.push(textSpan(buffer, annotations, link));
+    buffer = "";
+  };
+  const nested = (inner: string, extra: Annotations | undefined, innerLink = link) => {
+    flush();
+    parseInline(inner, { ...annotations, ...extra }, innerLink, out);
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    const rest = text.slice(i);
+
+    if (ch === "\\" && i + 1 < text.length && /[\\`*_~[\]$<>|#+\-.!]/.test(text[i + 1])) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (ch === "`") {
+      const ticks = rest.match(/^`+/)![0];
+      const close = text.indexOf(ticks, i + ticks.length);
+      if (close !== -1) {
+        flush();
+        const code = text.slice(i + ticks.length, close);
+        out.push(textSpan(ticks.length > 1 ? code.trim() : code, { ...annotations, code: true }, link));
+        i = close + ticks.length;
+        continue;
+      }
+    }
+
+    const emphasis =
+      rest.startsWith("**") || rest.startsWith("__")
+        ? { delimiter: rest.slice(0, 2), style: { bold: true } }
+        : rest.startsWith("~~")
+          ? { delimiter: "~~", style: { strikethrough: true } }
+          : ch === "*" || (ch === "_" && !/\w/.test(text[i - 1] ?? ""))
+            ? { delimiter: ch, style: { italic: true } }
+            : undefined;
+    if (emphasis && !/\s/.test(text[i + emphasis.delimiter.length] ?? " ")) {
+      const close = findClosing(text, emphasis.delimiter, i + emphasis.delimiter.length);
+      if (close !== -1 && !/\s/.test(text[close - 1])) {
+        nested(text.slice(i + emphasis.delimiter.length, close), emphasis.style);
+        i = close + emphasis.delimiter.length;
+        continue;
+      }
+    }
+
+    if (rest.startsWith("<u>")) {
+      const close = text.indexOf("</u>", i + 3);
+      if (close !== -1) {
+        nested(text.slice(i + 3, close), { underline: true });
+        i = close + 4;
+        continue;
+      }
+    }
+
+    if (ch === "[") {
+      const linkEnd = findLinkEnd(text, i + 1);
+      // Bare Notion page URLs are how page mentions render, so they become mentions again.
+      const mentionedPage = linkEnd?.url.match(NOTION_PAGE_URL)?.[1];
+      if (linkEnd && mentionedPage) {
+        flush();
+        out.push({ type: "mention", mention: { page: { id: mentionedPage } } });
+        i = linkEnd.end;
+        continue;
+      }
+      if (linkEnd) {
+        nested(text.slice(i + 1, linkEnd.labelEnd), undefined, linkEnd.url);
+        i = linkEnd.end;
+        continue;
+      }
+    }
+
+    // Inline equations: $x$ with no space just inside the dollars and no digit after, so prices stay text.
+    if (ch === "$" && !annotations.code) {
+      const match = rest.match(/^\$([^\s$](?:[^$]*[^\s$])?)\$(?!\d)/);
+      if (match) {
+        flush();
+        out.push({ type: "equation", equation: { expression: match[1] } });
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    const autolink = rest.match(/^<(https?:\/\/[^\s>]+)>/);
+    if (autolink) {
+      flush();
+      out.push(textSpan(autolink[1], annotations, autolink[1]));
+      i += autolink[0].length;
+      continue;
+    }
+
+    buffer += ch;
+    i++;
+  }
+  flush();
+}
+
+function sameStyle(a: any, b: any): boolean {
+  return (
+    a.type === "text" &&
+    b.type === "text" &&
+    JSON.stringify(a.annotations ?? {}) === JSON.stringify(b.annotations ?? {}) &&
+    a.text.link?.url === b.text.link?.url
+  );
+}
+
+// Merges adjacent spans with identical styling, then splits any over Notion's length limit.
+function normalizeSpans(spans: any[]): any[] {
+  const merged: any[] = [];
+  for (const span of spans) {
+    const prev = merged[merged.length - 1];
+    if (prev && sameStyle(prev, span)) {
+      prev.text.content += span.text.content;
+    } else {
+      merged.push(span.type === "text" ? { ...span, text: { ...span.text } } : span);
+    }
+  }
+
+  return merged.flatMap((span) => {
+    if (span.type !== "text" || span.text.content.length <= MAX_TEXT_LENGTH) return [span];
+    const parts: any[] = [];
+    for (let i = 0; i < span.text.content.length; i += MAX_TEXT_LENGTH) {
+      parts.push({ ...span, text: { ...span.text, content: span.text.content.slice(i, i + MAX_TEXT_LENGTH) } });
+    }
+    return parts;
+  });
+}
+
+/** Converts inline Markdown (bold, italic, code, strikethrough, underline, links, equations) to Notion rich text. */
+export function markdownToRichText(text: string): any[] {
+  const spans: any[] = [];
+  parseInline(text, {}, undefined, spans);
+  return normalizeSpans(spans);
+}
+
+/** Splits plain text into rich text objects of at most 2000 characters (code blocks, literal strings). */
+export function plainRichText(text: string): any[] {
+  return normalizeSpans([textSpan(text, {})]);
+}
+
+const CODE_LANGUAGES = new Set([
+  "abap", "agda", "arduino", "ascii art", "assembly", "bash", "basic", "bnf", "c", "c#", "c++", "clojure",
+  "coffeescript", "coq", "css", "dart", "dhall", "diff", "docker", "ebnf", "elixir", "elm", "erlang", "f#",
+  "flow", "fortran", "gherkin", "glsl", "go", "graphql", "groovy", "haskell", "hcl", "html", "idris", "java",
+  "javascript", "json", "julia", "kotlin", "latex", "less", "lisp", "livescript", "llvm ir", "lua", "makefile",
+  "markdown", "markup", "matlab", "mathematica", "mermaid", "nix", "notion formula", "objective-c", "ocaml",
+  "pascal", "perl", "php", "plain text", "powershell", "prolog", "protobuf", "purescript", "python", "r",
+  "racket", "reason", "ruby", "rust", "sass", "scala", "scheme", "scss", "shell", "smalltalk", "solidity", "sql",
+  "swift", "toml", "typescript", "vb.net", "verilog", "vhdl", "visual basic", "webassembly", "xml", "yaml",
+  "java/c/c++/c#",
+]);
+
+const CODE_LANGUAGE_ALIASES: Record<string, string> = {
+  js: "javascript", jsx: "javascript", mjs: "javascript", cjs: "javascript", node: "javascript",
+  ts: "typescript", tsx: "typescript", py: "python", python3: "python", rb: "ruby", rs: "rust",
+  sh: "shell", zsh: "shell", console: "shell", shellscript: "shell", ps1: "powershell", pwsh: "powershell",
+  yml: "yaml", md: "markdown", kt: "kotlin", cs: "c#", csharp: "c#", cpp: "c++", cc: "c++", h: "c",
+  fs: "f#", fsharp: "f#", objc: "objective-c", dockerfile: "docker", make: "makefile", tex: "latex",
+  golang: "go", proto: "protobuf", vb: "visual basic", wasm: "webassembly", htm: "html", svg: "xml",
+  gql: "graphql", tf: "hcl", text: "plain text", txt: "plain text", plaintext: "plain text", "": "plain text",
+};
+
+export function toNotionLanguage(language: string): string {
+  const lang = language.trim().toLowerCase();
+  if (CODE_LANGUAGES.has(lang)) return lang;
+  return CODE_LANGUAGE_ALIASES[lang] ?? "plain text";
+}
+
+// A text block, split into several blocks of the same type if it has too many rich text objects.
+function textBlocks(type: string, richText: any[], extra: Record<string, any> = {}): any[] {
+  const blocks: any[] = [];
+  for (let i = 0; i < Math.max(richText.length, 1); i += MAX_RICH_TEXT_ITEMS) {
+    blocks.push({ object: "block", type, [type]: { rich_text: richText.slice(i, i + MAX_RICH_TEXT_ITEMS), ...extra } });
+  }
+  return blocks;
+}
+
+// A text block with nested content. When the text splits into several blocks, the
+// children go under the last one so they still follow all of the text.
+function textBlocksWithChildren(type: string, richText: any[], children: any[], extra: Record<string, any> = {}): any[] {
+  const blocks = textBlocks(type, richText, extra);
+  const last = blocks[blocks.length - 1];
+  if (children.length > 0) last[type].children = children;
+  return blocks;
+}
+
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(?:\[([ xX])\]\s+)?(.*)$/;
+const FENCE = /^(\s*)(`{3,}|~{3,})\s*([^`\s]*)/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const FILE_UPLOAD_ID = /^[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}$/i;
+const LEADING_EMOJI = /^(\p{Extended_Pictographic}(?:️|‍\p{Extended_Pictographic})*)\s+/u;
+
+const CALLOUT_ALERTS: Record<string, string> = {
+  NOTE: "ℹ️",
+  TIP: "💡",
+  IMPORTANT: "❗",
+  WARNING: "⚠️",
+  CAUTION: "🛑",
+};
+
+function splitTableRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith("|")) row = row.slice(1);
+  if (row.endsWith("|") && !row.endsWith("\\|")) row = row.slice(0, -1);
+  const cells: string[] = [];
+  let cell = "";
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === "\\" && row[i + 1] === "|") {
+      cell += "|";
+      i++;
+    } else if (row[i] === "|") {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      cell += row[i];
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+function tableRow(cells: string[], width: number): any {
+  const padded = Array.from({ length: width }, (_, i) => markdownToRichText((cells[i] ?? "").replace(/<br\s*\/?>/g, "\n")));
+  return { object: "block", type: "table_row", table_row: { cells: padded } };
+}
+
+function dedent(lines: string[], width: number): string[] {
+  return lines.map((line) => line.replace(new RegExp(`^ {0,${width}}`), ""));
+}
+
+function isBlockStart(line: string): boolean {
+  return (
+    /^\s*#{1,6}\s/.test(line) ||
+    /^\s*>/.test(line) ||
+    FENCE.test(line) ||
+    LIST_ITEM.test(line) ||
+    /^\s*(?:---+|\*\*\*+|___+)\s*$/.test(line) ||
+    /^\s*\$\$/.test(line) ||
+    /^\s*<details>/i.test(line) ||
+    /^\s*\|/.test(line)
+  );
+}
+
+function parseBlocks(lines: string[]): any[] {
+  const blocks: any[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    if (!trimmed) {
+      i++;
+      continue;
+    }
+
+    // Fenced code
+    const fence = line.match(FENCE);
+    if (fence) {
+      const marker = fence[2];
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(marker)) code.push(lines[i++]);
+      i++;
+      blocks.push({
+        object: "block",
+        type: "code",
+        code: { rich_text: plainRichText(dedent(code, fence[1].length).join("\n")), language: toNotionLanguage(fence[3]) },
+      });
+      continue;
+    }
+
+    // Block equation
+    if (trimmed.startsWith("$$")) {
+      const single = trimmed.match(/^\$\$(.+)\$\$$/);
+      let expression: string;
+      if (single) {
+        expression = single[1];
+        i++;
+      } else {
+        const body: string[] = [trimmed.slice(2)];
+        i++;
+        while (i < lines.length && !lines[i].trim().endsWith("$$")) body.push(lines[i++]);
+        if (i < lines.length) body.push(lines[i++].trim().slice(0, -2));
+        expression = body.join("\n").trim();
+      }
+      blocks.push({ object: "block", type: "equation", equation: { expression } });
+      continue;
+    }
+
+    // Headings (Notion has three levels; deeper ones become heading_3)
+    const heading = trimmed.match(/^(#{1,6})\s+(.*?)\s*#*$/);
+    if (heading) {
+      const type = `heading_${Math.min(heading[1].length, 3)}`;
+      blocks.push(...textBlocks(type, markdownToRichText(heading[2])));
+      i++;
+      continue;
+    }
+
+    // Divider
+    if (/^(?:---+|\*\*\*+|___+)$/.test(trimmed)) {
+      blocks.push({ object: "block", type: "divider", divider: {} });
+      i++;
+      continue;
+    }
+
+    // Toggle: <details><summary>…</summary> … </details>
+    if (/^<details>/i.test(trimmed)) {
+      const inner: string[] = [];
+      let depth = 0;
+      for (; i < lines.length; i++) {
+        const current = lines[i].trim();
+        if (/^<details>/i.test(current)) depth++;
+        if (/<\/details>\s*$/i.test(current)) depth--;
+        inner.push(lines[i]);
+        if (depth === 0) {
+          i++;
+          break;
+        }
+      }
+      const html = inner.join("\n");
+      const summary = html.match(/<summary>([\s\S]*?)<\/summary>/i)?.[1] ?? "";
+      const body = html
+        .replace(/^\s*<details>/i, "")
+        .replace(/<\/details>\s*$/i, "")
+        .replace(/<summary>[\s\S]*?<\/summary>/i, "");
+      blocks.push(...textBlocksWithChildren("toggle", markdownToRichText(summary.trim()), parseBlocks(body.split("\n"))));
+      continue;
+    }
+
+    // Blockquote, callout (leading emoji or GFM alert), quote
+    if (trimmed.startsWith(">")) {
+      const quoted: string[] = [];
+      while (i < lines.length && lines[i].trim().startsWith(">")) {
+        quoted.push(lines[i].trim().replace(/^>\s?/, ""));
+        i++;
+      }
+
+      let icon: string | undefined;
+      const alert = quoted[0].match(/^\[!(\w+)\]\s*$/);
+      if (alert && CALLOUT_ALERTS[alert[1].toUpperCase()]) {
+        icon = CALLOUT_ALERTS[alert[1].toUpperCase()];
+        quoted.shift();
+      } else {
+        const emoji = quoted[0].match(LEADING_EMOJI);
+        if (emoji) {
+          icon = emoji[1];
+          quoted[0] = quoted[0].slice(emoji[0].length);
+        }
+      }
+
+      // The first paragraph is the block's own text; anything after it becomes children.
+      const blank = quoted.findIndex((l) => !l.trim());
+      const first = blank === -1 ? quoted : quoted.slice(0, blank);
+      const rest = blank === -1 ? [] : quoted.slice(blank + 1);
+      const richText = markdownToRichText(first.join("\n"));
+      blocks.push(
+        ...(icon
+          ? textBlocksWithChildren("callout", richText, parseBlocks(rest), { icon: { type: "emoji", emoji: icon } })
+          : textBlocksWithChildren("quote", richText, parseBlocks(rest))),
+      );
+      continue;
+    }
+
+    // Table: header row, separator row, body rows
+    if (trimmed.startsWith("|") && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1])) {
+      const header = splitTableRow(trimmed);
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].trim().startsWith("|")) rows.push(splitTableRow(lines[i++]));
+      const width = Math.max(header.length, ...rows.map((r) => r.length));
+      const headerIsEmpty = header.every((cell) => !cell);
+      blocks.push({
+        object: "block",
+        type: "table",
+        table: {
+          table_width: width,
+          has_column_header: !headerIsEmpty,
+          has_row_header: false,
+          children: [...(headerIsEmpty ? [] : [header]), ...rows].map((cells) => tableRow(cells, width)),
+        },
+      });
+      continue;
+    }
+
+    // List items, with nested content indented under them
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      const baseIndent = item[1].length;
+      const contentIndent = line.length - line.trimStart().length + item[2].length + 1;
+      const body: string[] = [];
+      i++;
+      while (i < lines.length) {
+        const next = lines[i];
+        const indentation = next.length - next.trimStart().length;
+        if (next.trim() && indentation <= baseIndent) break;
+        if (!next.trim() && !(lines[i + 1] ?? "").startsWith(" ".repeat(baseIndent + 1))) break;
+        body.push(next);
+        i++;
+      }
+
+      const type = item[3] !== undefined ? "to_do" : /^\d/.test(item[2]) ? "numbered_list_item" : "bulleted_list_item";
+      const extra = type === "to_do" ? { checked: item[3].toLowerCase() === "x" } : {};
+      const children = parseBlocks(dedent(body, Math.max(contentIndent, baseIndent + 2)));
+      blocks.push(...textBlocksWithChildren(type, markdownToRichText(item[4]), children, extra));
+      continue;
+    }
+
+    // Standalone image; the source is a URL or a file upload ID from upload-file
+    const image = trimmed.match(/^!\[([^\]]*)\]\(\s*<?([^\s)>]+)>?(?:\s+"[^"]*")?\s*\)$/);
+    if (image) {
+      const source = FILE_UPLOAD_ID.test(image[2])
+        ? { type: "file_upload", file_upload: { id: image[2] } }
+        : { type: "external", external: { url: image[2] } };
+      blocks.push({
+        object: "block",
+        type: "image",
+        image: { ...source, ...(image[1] ? { caption: markdownToRichText(image[1]) } : {}) },
+      });
+      i++;
+      continue;
+    }
+
+    // Paragraph: consecutive lines until a blank line or another block starts
+    const paragraph: string[] = [line.trim()];
+    i++;
+    while (i < lines.length && lines[i].trim() && !isBlockStart(lines[i])) paragraph.push(lines[i++].trim());
+    blocks.push(...textBlocks("paragraph", markdownToRichText(paragraph.join("\n"))));
+  }
+
+  return blocks;
+}
+
+/**
+ * Converts GitHub-flavoured Markdown into Notion block objects: paragraphs, headings,
+ * nested lists and to-dos, code fences, quotes, callouts, dividers, tables, toggles
+ * (<details>), equations and images. Children are nested under the block type key, as
+ * the Notion API expects; use appendBlockChildren to send trees of any size or depth.
+ */
+export function markdownToBlocks(markdown: string): any[] {
+  return parseBlocks(markdown.replace(/\r\n?/g, "\n").split("\n"));
+}
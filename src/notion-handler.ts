@@ -1,29 +1,37 @@
 import { env } from "cloudflare:workers";
 import type { AuthRequest, OAuthHelpers } from "@cloudflare/workers-oauth-provider";
 import { Hono } from "hono";
-import { getNotionAuthorizeUrl, fetchNotionToken, type Props } from "./utils";
+import { formatId, listDatabases, listTopLevelPages, normalizeId, NotionApiError, ReauthorizationRequiredError } from "./notion";
+import { isScope, requestedScopes, SCOPES } from "./scopes";
+import { getNotionAuthorizeUrl, fetchNotionToken, notionCredentials, type Props } from "./utils";
 import {
   addApprovedClient,
   bindStateToSession,
   createOAuthState,
   generateCSRFProtection,
-  isClientApproved,
+  getApprovedScopes,
   OAuthError,
   renderApprovalDialog,
+  renderResourcePicker,
+  storePendingGrant,
+  takePendingGrant,
   validateCSRFToken,
   validateOAuthState,
 } from "./workers-oauth-utils";
 
 const app = new Hono<{ Bindings: Env & { OAUTH_PROVIDER: OAuthHelpers } }>();
 
-// GET /authorize — show approval dialog or redirect straight to Notion if already approved
+// GET /authorize — show approval dialog, or redirect straight to Notion if the client was
+// already approved for every scope it asks for
 app.get("/authorize", async (c) => {
   const oauthReqInfo = await c.env.OAUTH_PROVIDER.parseAuthRequest(c.req.raw);
   const { clientId } = oauthReqInfo;
   if (!clientId) return c.text("Invalid request", 400);
 
-  if (await isClientApproved(c.req.raw, clientId, env.COOKIE_ENCRYPTION_KEY)) {
-    const { stateToken } = await createOAuthState(oauthReqInfo, c.env.OAUTH_KV);
+  const requested = requestedScopes(oauthReqInfo.scope);
+  const approved = await getApprovedScopes(c.req.raw, clientId, env.COOKIE_ENCRYPTION_KEY);
+  if (approved && requested.every((scope) => approved.includes(scope))) {
+    const { stateToken } = await createOAuthState({ ...oauthReqInfo, scope: requested }, c.env.OAUTH_KV);
     const { setCookie: sessionCookie } = await bindStateToSession(stateToken);
     return redirectToNotion(c.req.raw, stateToken, { "Set-Cookie": sessionCookie });
   }
@@ -37,6 +45,7 @@ app.get("/authorize", async (c) => {
       name: "Notion MCP Server",
       description: "Connect your AI assistant to your Notion workspace.",
     },
+    scopes: requested.map((name) => ({ name, description: SCOPES[name], checked: true })),
     setCookie,
     state: { oauthReqInfo },
   });
@@ -60,13 +69,20 @@ app.post("/authorize", async (c) => {
 
     if (!state.oauthReqInfo?.clientId) return c.text("Invalid request", 400);
 
+    // Only scopes the client asked for can be granted, whatever the form says
+    const requested = requestedScopes(state.oauthReqInfo.scope);
+    const chosen = formData.getAll("scope").filter(isScope);
+    const scope = requested.filter((s) => chosen.includes(s));
+    if (scope.length === 0) return c.text("Select at least one permission", 400);
+
     const approvedCookie = await addApprovedClient(
       c.req.raw,
       state.oauthReqInfo.clientId,
+      scope,
       c.env.COOKIE_ENCRYPTION_KEY,
     );
 
-    const { stateToken } = await createOAuthState(state.oauthReqInfo, c.env.OAUTH_KV);
+    const { stateToken } = await createOAuthState({ ...state.oauthReqInfo, scope }, c.env.OAUTH_KV);
     const { setCookie: sessionCookie } = await bindStateToSession(stateToken);
 
     const headers = new Headers();
@@ -105,28 +121,87 @@ app.get("/callback", async (c) => {
   });
   if (errResponse) return errResponse;
 
-  // Complete the MCP OAuth flow — issue our own token to the MCP client
+  const props: Props = {
+    ...notionCredentials(tokenData),
+    workspaceId: tokenData.workspace_id,
+    workspaceName: tokenData.workspace_name ?? "",
+    botId: tokenData.bot_id,
+    scopes: requestedScopes(oauthReqInfo.scope),
+  };
+
+  // Second consent step: the user may limit this client to some of what Notion shares.
+  // If Notion can't list it right now, everything can still be allowed.
+  let dataSources: Array<{ id: string; title: string }> = [];
+  let pages: Array<{ id: string; title: string }> = [];
+  let notice: string | undefined;
+  try {
+    [dataSources, pages] = await Promise.all([
+      listDatabases(tokenData.access_token),
+      listTopLevelPages(tokenData.access_token),
+    ]);
+  } catch (error) {
+    if (!(error instanceof NotionApiError || error instanceof ReauthorizationRequiredError)) throw error;
+    console.error("Listing resources for the picker failed:", error.message);
+    notice = `Notion couldn't list your databases and pages (${error.message}). You can allow everything now, or close this window and connect again to choose items.`;
+  }
+  const pendingKey = await storePendingGrant({ oauthReqInfo, props } satisfies PendingGrant, c.env.OAUTH_KV);
+  const { token: csrfToken, setCookie } = generateCSRFProtection();
+
+  return renderResourcePicker(c.req.raw, {
+    server: { name: "Notion MCP Server" },
+    workspaceName: props.workspaceName,
+    dataSources: dataSources.map((ds) => ({ id: ds.id, title: ds.title })),
+    pages,
+    notice,
+    pendingKey,
+    csrfToken,
+    setCookies: clearSessionCookie ? [setCookie, clearSessionCookie] : [setCookie],
+  });
+});
+
+// POST /callback — user chose what to share; issue our own token to the MCP client
+app.post("/callback", async (c) => {
+  let grant: PendingGrant;
+  let formData: FormData;
+  try {
+    formData = await c.req.raw.formData();
+    validateCSRFToken(formData, c.req.raw);
+    const pendingKey = formData.get("pending");
+    if (!pendingKey || typeof pendingKey !== "string") return c.text("Missing pending authorization", 400);
+    grant = await takePendingGrant<PendingGrant>(pendingKey, c.env.OAUTH_KV);
+  } catch (error: any) {
+    if (error instanceof OAuthError) return error.toResponse();
+    return c.text("Internal server error", 500);
+  }
+
+  const props: Props = { ...grant.props };
+  if (formData.get("access") === "selected") {
+    const ids = (name: string) =>
+      formData.getAll(name).filter((v): v is string => typeof v === "string").map((id) => formatId(normalizeId(id)));
+    props.allowlist = { dataSources: ids("data_source"), pages: ids("page") };
+    if (props.allowlist.dataSources.length + props.allowlist.pages.length === 0) {
+      return c.text("Select at least one database or page, or choose everything", 400);
+    }
+  }
+
   const { redirectTo } = await c.env.OAUTH_PROVIDER.completeAuthorization({
-    request: oauthReqInfo,
-    userId: tokenData.bot_id,
+    request: grant.oauthReqInfo,
+    userId: props.botId,
     metadata: {
-      label: tokenData.workspace_name ?? "Notion",
+      label: props.workspaceName || "Notion",
     },
-    scope: oauthReqInfo.scope,
-    props: {
-      accessToken: tokenData.access_token,
-      workspaceId: tokenData.workspace_id,
-      workspaceName: tokenData.workspace_name ?? "",
-      botId: tokenData.bot_id,
-    } satisfies Props,
+    scope: grant.oauthReqInfo.scope,
+    props,
   });
 
-  const headers = new Headers({ Location: redirectTo });
-  if (clearSessionCookie) headers.set("Set-Cookie", clearSessionCookie);
-
-  return new Response(null, { status: 302, headers });
+  return new Response(null, { status: 302, headers: { Location: redirectTo } });
 });
 
+interface PendingGrant {
+  oauthReqInfo: AuthRequest;
+  props: Props;
+}
+
 function redirectToNotion(
   request: Request,
   stateToken: string,
@@ -1,24 +1,454 @@
+import { PAGE_COLUMNS, parseCsv, toCsv, toJsonl, type ExportFormat } from "./export";
+import { markdownToBlocks, renderBlocks, renderFrontMatter } from "./markdown";
+import {
+  buildPropertyPayload,
+  hasSimpleValues,
+  isNotionId,
+  isRawPropertyValue,
+  isReadOnlyPropertyType,
+  type PropertyType,
+} from "./properties";
+import {
+  formatRichText,
+  normalizeBlockRichText,
+  normalizePropertyRichText,
+  parseRichTextInput,
+  toCompactSpans,
+  type RichTextFormat,
+  type RichTextInput,
+} from "./rich-text";
+import type { SnapshotRow } from "./watch";
+
 const NOTION_API = "https://api.notion.com/v1";
 const NOTION_VERSION = "2025-09-03";
 
-function headers(token: string) {
+function headers(token: string, json = true) {
   return {
     Authorization: `Bearer ${token}`,
     "Notion-Version": NOTION_VERSION,
-    "Content-Type": "application/json",
+    ...(json ? { "Content-Type": "application/json" } : {}),
   };
 }
 
-async function notionFetch(token: string, path: string, init?: RequestInit): Promise<any> {
-  const res = await fetch(`${NOTION_API}${path}`, {
-    ...init,
-    headers: { ...headers(token), ...init?.headers },
+// ── Errors ──
+
+const REMEDIATION_HINTS: Record<string, string> = {
+  object_not_found:
+    "The page or database doesn't exist or isn't shared with the integration. In Notion, open it → ••• → Connections → add this integration, then retry.",
+  restricted_resource:
+    "The integration lacks the capability for this action (e.g. read/update/insert content). Check the integration's capabilities in Notion.",
+  validation_error: "The request body doesn't match what Notion expects. Check the payload against the tool description.",
+  invalid_json: "The request body isn't valid JSON.",
+  invalid_request: "This request isn't supported by the Notion API.",
+  invalid_request_url: "The request URL is invalid — check the ID passed to the tool.",
+  conflict_error: "The data was changed by another request at the same time. Retry the request.",
+  rate_limited: "Notion's rate limit was exceeded even after retrying. Wait a few seconds and retry.",
+  internal_server_error: "Notion had an unexpected error. Retry the request.",
+  service_unavailable: "Notion is temporarily unavailable. Retry shortly.",
+  database_connection_unavailable: "Notion's database is temporarily unavailable. Retry shortly.",
+  gateway_timeout: "Notion timed out processing the request. Retry, or reduce the request size.",
+};
+
+const UNKNOWN_PROPERTY_HINT =
+  "A property name doesn't exist on this database. Call get-database-schema to get the exact (case-sensitive) property names and types.";
+
+const RETRIABLE_CODES = new Set([
+  "conflict_error",
+  "rate_limited",
+  "internal_server_error",
+  "service_unavailable",
+  "database_connection_unavailable",
+  "gateway_timeout",
+]);
+
+export class NotionApiError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message: string,
+    public requestId?: string,
+  ) {
+    super(message);
+    this.name = "NotionApiError";
+  }
+
+  /** Whether repeating the same request later may succeed. */
+  get retriable(): boolean {
+    return RETRIABLE_CODES.has(this.code) || this.status === 429 || this.status >= 500;
+  }
+
+  get hint(): string | undefined {
+    if (this.code === "validation_error" && /not a property that exists|Could not find property/i.test(this.message)) {
+      return UNKNOWN_PROPERTY_HINT;
+    }
+    return REMEDIATION_HINTS[this.code];
+  }
+
+  toJSON() {
+    return {
+      error: "notion_api_error",
+      status: this.status,
+      code: this.code,
+      message: this.message,
+      request_id: this.requestId ?? null,
+      retriable: this.retriable,
+      ...(this.hint ? { hint: this.hint } : {}),
+    };
+  }
+
+  static async fromResponse(res: Response): Promise<NotionApiError> {
+    const text = await res.text();
+    let body: any;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      body = undefined;
+    }
+    return new NotionApiError(
+      res.status,
+      body?.code ?? `http_${res.status}`,
+      body?.message ?? (text || res.statusText),
+      body?.request_id ?? res.headers.get("x-request-id") ?? undefined,
+    );
+  }
+}
+
+/** The Notion token was revoked or can't be refreshed; only a new OAuth consent helps. */
+export class ReauthorizationRequiredError extends Error {
+  constructor() {
+    super("Notion access for this connection has expired or was revoked. Re-authorize the MCP connection, then retry.");
+    this.name = "ReauthorizationRequiredError";
+  }
+}
+
+// ── Token refresh ──
+// OAuth access tokens can expire. A session registers its token with the credentials to
+// use and a way to refresh them; notionFetch then refreshes once the expiry passes or on a
+// 401 and retries. Callers keep passing the token they registered, which stays mapped to
+// the current credentials.
+
+export interface NotionCredentials {
+  accessToken: string;
+  refreshToken?: string;
+  /** Epoch ms; absent when Notion didn't say the token expires. */
+  expiresAt?: number;
+}
+
+interface TokenSession {
+  credentials: NotionCredentials;
+  refresh: (credentials: NotionCredentials) => Promise<NotionCredentials>;
+  /** In-flight refresh, shared by requests that fail together. */
+  pending?: Promise<NotionCredentials>;
+}
+
+/** Refresh this long before the stated expiry, so a request doesn't race it. */
+const EXPIRY_MARGIN_MS = 60_000;
+
+const tokenSessions = new Map<string, TokenSession>();
+
+/** Registers a token for refresh. A token already registered keeps its current credentials. */
+export function registerTokenRefresh(
+  token: string,
+  credentials: NotionCredentials,
+  refresh: (credentials: NotionCredentials) => Promise<NotionCredentials>,
+) {
+  if (!tokenSessions.has(token)) tokenSessions.set(token, { credentials, refresh });
+}
+
+async function activeToken(token: string): Promise<string> {
+  const session = tokenSessions.get(token);
+  if (!session) return token;
+  const { accessToken, refreshToken, expiresAt } = session.credentials;
+  if (refreshToken && expiresAt !== undefined && expiresAt - EXPIRY_MARGIN_MS < Date.now()) {
+    return refreshSession(session, accessToken);
+  }
+  return accessToken;
+}
+
+// `failed` is the access token that was rejected; if another request already replaced
+// it, that replacement is used instead of refreshing again.
+async function refreshSession(session: TokenSession, failed: string): Promise<string> {
+  if (session.credentials.accessToken !== failed) return session.credentials.accessToken;
+  if (!session.credentials.refreshToken) throw new ReauthorizationRequiredError();
+  session.pending ??= session.refresh(session.credentials).finally(() => {
+    session.pending = undefined;
   });
-  if (!res.ok) {
-    const body = await res.text();
-    throw new Error(`Notion API error ${res.status}: ${body}`);
+  session.credentials = await session.pending;
+  return session.credentials.accessToken;
+}
+
+// ── Rate limiting & retries ──
+// Notion allows an average of ~3 requests/second per integration token, with short
+// bursts tolerated. Every request for a token is paced through one shared pacer so
+// concurrent fan-outs (batch updates, Promise.allSettled) queue up instead of
+// tripping 429s together. The map lives at module scope, so all tool calls served
+// by the NotionMCP Durable Object share the same pacer for its token. Tokens rotate
+// on refresh, so pacers idle for longer than PACER_IDLE_MS are dropped; by then the
+// pacer has no pending slots left to enforce.
+const REQUESTS_PER_SECOND = 3;
+const PACER_IDLE_MS = 60_000;
+const BURST = 3;
+const MAX_RETRIES = 4;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 8_000;
+// A 429 means the request was never processed, so it's safe to resend whatever the
+// method. A 5xx may come after Notion has applied the change, so only requests that are
+// safe to repeat are retried; a repeated POST could create a second page or comment.
+const TRANSIENT_STATUSES = new Set([502, 503, 504]);
+const IDEMPOTENT_METHODS = new Set(["GET", "PATCH", "DELETE"]);
+
+function isRetryable(status: number, method = "GET"): boolean {
+  return status === 429 || (TRANSIENT_STATUSES.has(status) && IDEMPOTENT_METHODS.has(method.toUpperCase()));
+}
+
+class RequestPacer {
+  private nextSlot = 0;
+
+  constructor(
+    private readonly intervalMs = 1000 / REQUESTS_PER_SECOND,
+    private readonly burst = BURST,
+  ) {}
+
+  /** Resolves once the caller may send its request. */
+  async acquire(): Promise<void> {
+    const now = Date.now();
+    const slot = Math.max(this.nextSlot, now - this.burst * this.intervalMs);
+    this.nextSlot = slot + this.intervalMs;
+    if (slot > now) await sleep(slot - now);
+  }
+
+  /** Holds back every queued and future request until `until` (epoch ms). */
+  pauseUntil(until: number) {
+    this.nextSlot = Math.max(this.nextSlot, until);
+  }
+
+  /** Whether nothing has been scheduled on this pacer since `idleMs` ago. */
+  idleSince(now: number, idleMs: number): boolean {
+    return this.nextSlot < now - idleMs;
+  }
+}
+
+const pacers = new Map<string, RequestPacer>();
+
+function pacerFor(token: string): RequestPacer {
+  const now = Date.now();
+  for (const [key, idle] of pacers) {
+    if (key !== token && idle.idleSince(now, PACER_IDLE_MS)) pacers.delete(key);
+  }
+
+  let pacer = pacers.get(token);
+  if (!pacer) {
+    pacer = new RequestPacer();
+    pacers.set(token, pacer);
+  }
+  return pacer;
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Retry-After is either delta-seconds or an HTTP date.
+function retryAfterMs(res: Response): number | undefined {
+  const header = res.headers.get("Retry-After");
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Exponential backoff with full jitter.
+function backoffMs(attempt: number): number {
+  return Math.random() * Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+}
+
+async function notionFetch(token: string, path: string, init?: RequestInit): Promise<any> {
+  const pacer = pacerFor(token);
+  let current = await activeToken(token);
+  let refreshed = false;
+
+  for (let attempt = 0; ; attempt++) {
+    await pacer.acquire();
+    const res = await fetch(`${NOTION_API}${path}`, {
+      ...init,
+      // Multipart bodies (file uploads) need fetch to set the boundary itself.
+      headers: { ...headers(current, !(init?.body instanceof FormData)), ...init?.headers },
+    });
+    if (res.ok) return res.json();
+
+    // A 401 is retried once with refreshed credentials; after that the token is revoked.
+    if (res.status === 401) {
+      await res.body?.cancel();
+      const session = tokenSessions.get(token);
+      if (!session || refreshed) throw new ReauthorizationRequiredError();
+      current = await refreshSession(session, current);
+      refreshed = true;
+      continue;
+    }
+
+    if (isRetryable(res.status, init?.method) && attempt < MAX_RETRIES) {
+      const retryAfter = retryAfterMs(res);
+      const delay = retryAfter ?? backoffMs(attempt);
+      await res.body?.cancel();
+      // A 429 applies to the whole token, so hold back the other queued requests too;
+      // the next acquire() waits out the pause.
+      if (res.status === 429) pacer.pauseUntil(Date.now() + delay);
+      else await sleep(delay);
+      continue;
+    }
+
+    throw await NotionApiError.fromResponse(res);
+  }
+}
+
+// ── Cache interface (implemented by the NotionMCP Durable Object's SQLite storage) ──
+export interface NotionCache {
+  get<T>(key: string): T | undefined;
+  put(key: string, value: unknown, ttlSeconds?: number): void;
+  delete(key: string): void;
+}
+
+// ── ID kind resolution ──
+// A Notion ID can name a data source, a database container (which holds one or more
+// data sources), a page, or a block. Probing is done once per ID and cached; an ID's
+// kind never changes, but a container's data sources can, so entries expire.
+export type IdKind = "data_source" | "database" | "page" | "block";
+
+export interface ResolvedId {
+  id: string;
+  kind: IdKind;
+  /** For database containers: the data sources it holds. */
+  dataSources?: Array<{ id: string; name: string }>;
+}
+
+const ID_CACHE_TTL_SECONDS = 24 * 60 * 60;
+const ID_KINDS: IdKind[] = ["data_source", "database", "page", "block"];
+
+const ID_KIND_LABELS: Record<IdKind, string> = {
+  data_source: "data source (database table)",
+  database: "database container",
+  page: "page",
+  block: "block",
+};
+
+const ID_KIND_PATHS: Record<IdKind, string> = {
+  data_source: "/data_sources",
+  database: "/databases",
+  page: "/pages",
+  block: "/blocks",
+};
+
+// 404s and 400 validation errors mean "not this kind of object"; anything else is real.
+function isWrongKindError(err: unknown): boolean {
+  return err instanceof NotionApiError && (err.status === 404 || err.code === "validation_error");
+}
+
+export async function resolveId(
+  token: string,
+  id: string,
+  cache?: NotionCache,
+  prefer: IdKind[] = [],
+): Promise<ResolvedId> {
+  const key = `id:${normalizeId(id)}`;
+  const cached = cache?.get<ResolvedId>(key);
+  if (cached) return cached;
+
+  const order = [...prefer, ...ID_KINDS.filter((k) => !prefer.includes(k))];
+  for (const kind of order) {
+    let obj: any;
+    try {
+      obj = await notionFetch(token, `${ID_KIND_PATHS[kind]}/${id}`);
+    } catch (err) {
+      if (isWrongKindError(err)) continue;
+      throw err;
+    }
+
+    const resolved: ResolvedId = { id: formatId(obj.id), kind };
+    if (kind === "database") {
+      resolved.dataSources = (obj.data_sources ?? []).map((ds: any) => ({ id: formatId(ds.id), name: ds.name }));
+    }
+    cache?.put(key, resolved, ID_CACHE_TTL_SECONDS);
+    return resolved;
+  }
+
+  throw new NotionApiError(
+    404,
+    "object_not_found",
+    `Could not find ${formatId(id)} as a data source, database, page or block. Make sure it's shared with the integration.`,
+  );
+}
+
+function wrongKindError(resolved: ResolvedId, expected: string): Error {
+  return new Error(`ID ${resolved.id} is a ${ID_KIND_LABELS[resolved.kind]}, not a ${expected}.`);
+}
+
+// Resolves a data source ID, or a database container ID with exactly one data source,
+// to the data source ID that queries, schema reads and item creation operate on.
+export async function resolveDataSourceId(token: string, id: string, cache?: NotionCache): Promise<string> {
+  const resolved = await resolveId(token, id, cache, ["data_source", "database"]);
+  if (resolved.kind === "data_source") return resolved.id;
+  if (resolved.kind !== "database") {
+    throw wrongKindError(resolved, "database — use list-databases to find database IDs");
+  }
+
+  const sources = resolved.dataSources ?? [];
+  if (sources.length === 1) return sources[0].id;
+  if (sources.length === 0) throw new Error(`Database ${resolved.id} has no data sources.`);
+  throw new Error(
+    `Database ${resolved.id} has ${sources.length} data sources; pass one of their IDs instead: ${sources
+      .map((ds) => `${ds.name} (${ds.id})`)
+      .join(", ")}`,
+  );
+}
+
+// Resolves an ID that must be a data source or a database container (e.g. for archiving).
+export async function resolveDatabaseTarget(token: string, id: string, cache?: NotionCache): Promise<ResolvedId> {
+  const resolved = await resolveId(token, id, cache, ["data_source", "database"]);
+  if (resolved.kind !== "data_source" && resolved.kind !== "database") {
+    throw wrongKindError(resolved, "database — use list-databases to find database IDs");
+  }
+  return resolved;
+}
+
+export interface PageParent {
+  pageId?: string;
+  dataSourceId?: string;
+}
+
+// Resolves where a new page can go: under a page, or into a data source (a database
+// container with one data source counts as that data source).
+export async function resolvePageParent(token: string, id: string, cache?: NotionCache): Promise<PageParent> {
+  const resolved = await resolveId(token, id, cache, ["page", "data_source", "database"]);
+  if (resolved.kind === "page") return { pageId: resolved.id };
+  if (resolved.kind === "block") throw wrongKindError(resolved, "page or database");
+  return { dataSourceId: await resolveDataSourceId(token, resolved.id, cache) };
+}
+
+// Runs a page or block operation directly; only when Notion rejects the ID is it
+// classified, so the caller gets a clear message if it was the wrong kind of ID.
+export async function withIdKindCheck<T>(
+  token: string,
+  id: string,
+  cache: NotionCache | undefined,
+  allowed: IdKind[],
+  fn: () => Promise<T>,
+): Promise<T> {
+  try {
+    return await fn();
+  } catch (err) {
+    if (!isWrongKindError(err)) throw err;
+    let resolved: ResolvedId;
+    try {
+      resolved = await resolveId(token, id, cache, allowed);
+    } catch {
+      throw err;
+    }
+    if (!allowed.includes(resolved.kind)) {
+      throw wrongKindError(resolved, allowed.map((k) => ID_KIND_LABELS[k]).join(" or "));
+    }
+    throw err;
   }
-  return res.json();
 }
 
 // ── Fetch all data sources via search (shared helper) ──
@@ -39,9 +469,18 @@ async function searchAllDataSources(token: string) {
 }
 
 // ── List all databases the integration has access to ──
-export async function listDatabases(token: string) {
+export async function listDatabases(token: string, cache?: NotionCache) {
   const results = await searchAllDataSources(token);
 
+  // Search results carry each data source's last_edited_time, so use them to drop
+  // cached schemas that have changed since they were cached.
+  if (cache) {
+    for (const db of results) {
+      const cached = cache.get<DatabaseSchema>(schemaCacheKey(db.id));
+      if (cached && cached.last_edited_time !== db.last_edited_time) cache.delete(schemaCacheKey(db.id));
+    }
+  }
+
   return results.map((db: any) => ({
     id: db.id,
     title: db.title?.[0]?.plain_text ?? "(untitled)",
@@ -51,17 +490,219 @@ export async function listDatabases(token: string) {
   }));
 }
 
-// ── Get database schema (properties / columns) ──
-export async function getDatabaseSchema(token: string, databaseId: string) {
-  const normalized = databaseId.replace(/-/g, "");
-  const all = await searchAllDataSources(token);
-  const db = all.find((d: any) => d.id.replace(/-/g, "") === normalized);
+// ── Workspace search ──
+export type SearchObjectType = "page" | "data_source";
+
+export interface SearchOptions {
+  query?: string;
+  type?: SearchObjectType;
+  sortDirection?: "ascending" | "descending";
+  pageSize?: number;
+  startCursor?: string;
+}
+
+interface ParentNode {
+  title?: string;
+  parent?: any;
+}
+
+const PARENT_CACHE_TTL_SECONDS = 60 * 60;
+const MAX_PARENT_DEPTH = 6;
+// Parent lookups are one request each; share a budget across the whole result page.
+const PARENT_REQUEST_BUDGET = 30;
+
+function titleOf(object: any): string {
+  if (object.object === "page") {
+    const prop: any = Object.values(object.properties ?? {}).find((p: any) => p.type === "title");
+    return formatRichText(prop?.title) || "(untitled)";
+  }
+  return formatRichText(object.title) || "(untitled)";
+}
+
+function parentRef(parent: any): { type: string; id?: string } {
+  if (!parent || parent.type === "workspace") return { type: "workspace" };
+  return { type: parent.type, id: parent[parent.type] };
+}
+
+/**
+ * Looks up the titles above a search result, nearest last ("Projects / Roadmap").
+ * Parents are cached; unshared parents the integration can't read end the path.
+ */
+async function parentPath(
+  parent: any,
+  lookup: (ref: { type: string; id: string }) => Promise<ParentNode | undefined>,
+): Promise<string> {
+  const titles: string[] = [];
+  let current = parent;
+  for (let depth = 0; depth < MAX_PARENT_DEPTH; depth++) {
+    const ref = parentRef(current);
+    if (!ref.id) return titles.reverse().join(" / ");
+    const node = await lookup(ref as { type: string; id: string });
+    if (!node) break;
+    if (node.title) titles.push(node.title);
+    current = node.parent;
+  }
+  return ["…", ...titles.reverse()].join(" / ");
+}
+
+function parentLookup(token: string, cache?: NotionCache) {
+  const pending = new Map<string, Promise<ParentNode | undefined>>();
+  let budget = PARENT_REQUEST_BUDGET;
+
+  const fetchNode = async ({ type, id }: { type: string; id: string }): Promise<ParentNode | undefined> => {
+    const key = `parent:${normalizeId(id)}`;
+    const cached = cache?.get<ParentNode>(key);
+    if (cached) return cached;
+    if (budget <= 0) return undefined;
+    budget--;
+
+    let node: ParentNode;
+    try {
+      if (type === "page_id") {
+        const page = await notionFetch(token, `/pages/${id}`);
+        node = { title: titleOf(page), parent: page.parent };
+      } else if (type === "data_source_id") {
+        // Skip the database container: its title matches its (single) data source.
+        const ds = await notionFetch(token, `/data_sources/${id}`);
+        node = { title: titleOf(ds), parent: ds.database_parent };
+      } else if (type === "database_id") {
+        const db = await notionFetch(token, `/databases/${id}`);
+        node = { title: titleOf(db), parent: db.parent };
+      } else {
+        // Blocks (e.g. a page inside a toggle) have no title of their own, except child
+        // pages and databases, which the block endpoint also returns.
+        const block = await notionFetch(token, `/blocks/${id}`);
+        node = { title: block.child_page?.title ?? block.child_database?.title, parent: block.parent };
+      }
+    } catch (err) {
+      if (err instanceof NotionApiError && (err.status === 404 || err.status === 403)) return undefined;
+      throw err;
+    }
+
+    cache?.put(key, node, PARENT_CACHE_TTL_SECONDS);
+    return node;
+  };
+
+  return (ref: { type: string; id: string }) => {
+    const key = normalizeId(ref.id);
+    if (!pending.has(key)) pending.set(key, fetchNode(ref));
+    return pending.get(key)!;
+  };
+}
+
+/** Caches a page that was already fetched as a parent node, so lookups through it skip a request. */
+export function rememberParent(page: any, cache?: NotionCache) {
+  cache?.put(`parent:${normalizeId(page.id)}`, { title: titleOf(page), parent: page.parent } satisfies ParentNode, PARENT_CACHE_TTL_SECONDS);
+}
+
+// ── Allowlists ──
+// A grant can be limited to some data sources and pages; everything below them (rows,
+// sub-pages, blocks, inline databases) is allowed too. Parents are cached for an hour,
+// so an item moved out of an allowed page stays reachable until its entry expires.
+export interface Allowlist {
+  dataSources: string[];
+  pages: string[];
+}
+
+export type ParentRefType = "page_id" | "block_id" | "data_source_id" | "database_id";
+
+const MAX_ALLOWLIST_DEPTH = 20;
+
+/**
+ * Whether an object is in the allowlist or below an entry of it. Returns undefined when
+ * the object itself can't be read; callers treat that as denied.
+ */
+export async function withinAllowlist(
+  token: string,
+  ref: { type: ParentRefType; id: string },
+  allowlist: Allowlist,
+  cache?: NotionCache,
+): Promise<boolean | undefined> {
+  const allowed = new Set([...allowlist.dataSources, ...allowlist.pages].map(normalizeId));
+  const lookup = parentLookup(token, cache);
+  let current: { type: string; id?: string } = ref;
+  for (let depth = 0; depth < MAX_ALLOWLIST_DEPTH && current.id; depth++) {
+    if (allowed.has(normalizeId(current.id))) return true;
+    const node = await lookup(current as { type: string; id: string });
+    if (!node) return depth === 0 ? undefined : false;
+    current = parentRef(node.parent);
+  }
+  return false;
+}
+
+/**
+ * Pages at the top of what the integration can see: in the workspace root, or under a
+ * page it wasn't given. Database rows and pages nested in blocks are left out.
+ */
+export async function listTopLevelPages(token: string, maxRequests = 5) {
+  const pages: any[] = [];
+  let cursor: string | undefined;
+  for (let i = 0; i < maxRequests; i++) {
+    const body: any = { page_size: 100, filter: { property: "object", value: "page" } };
+    if (cursor) body.start_cursor = cursor;
+    const res = await notionFetch(token, "/search", { method: "POST", body: JSON.stringify(body) });
+    pages.push(...res.results);
+    cursor = res.has_more ? (res.next_cursor ?? undefined) : undefined;
+    if (!cursor) break;
+  }
+
+  const visible = new Set(pages.map((p) => normalizeId(p.id)));
+  return pages
+    .filter((p) => p.parent?.type === "workspace" || (p.parent?.type === "page_id" && !visible.has(normalizeId(p.parent.page_id))))
+    .map((p) => ({ id: formatId(p.id), title: titleOf(p) }));
+}
+
+/** Searches page and data source titles, returning flattened results with their parent path. */
+export async function searchWorkspace(token: string, opts: SearchOptions = {}, cache?: NotionCache) {
+  const body: any = { page_size: Math.min(opts.pageSize ?? 20, 100) };
+  if (opts.query) body.query = opts.query;
+  if (opts.type) body.filter = { property: "object", value: opts.type };
+  if (opts.sortDirection) body.sort = { timestamp: "last_edited_time", direction: opts.sortDirection };
+  if (opts.startCursor) body.start_cursor = opts.startCursor;
 
-  if (!db) {
-    throw new Error(`Database ${databaseId} not found. Make sure it's shared with the integration.`);
+  const res = await notionFetch(token, "/search", { method: "POST", body: JSON.stringify(body) });
+  const lookup = parentLookup(token, cache);
+
+  const results = [];
+  for (const item of res.results) {
+    results.push({
+      id: formatId(item.id),
+      type: item.object,
+      title: titleOf(item),
+      parent_path: await parentPath(item.parent, lookup),
+      url: item.url,
+      last_edited_time: item.last_edited_time,
+    });
   }
 
-  const properties = Object.entries(db.properties ?? {}).map(
+  return { results, has_more: res.has_more, next_cursor: res.next_cursor ?? null };
+}
+
+// ── Get database schema (properties / columns) ──
+export interface SchemaProperty {
+  name: string;
+  type: string;
+  options?: string[];
+  groups?: Array<{ name: string; option_ids: string[] }>;
+}
+
+export interface DatabaseSchema {
+  id: string;
+  title: string;
+  last_edited_time: string;
+  properties: SchemaProperty[];
+}
+
+// Schemas are cached for a short while and refreshed whenever the data source's
+// last_edited_time is seen to move (listDatabases) or it is edited through updateDatabase.
+const SCHEMA_CACHE_TTL_SECONDS = 5 * 60;
+
+function schemaCacheKey(dataSourceId: string) {
+  return `schema:${normalizeId(dataSourceId)}`;
+}
+
+function toSchema(ds: any): DatabaseSchema {
+  const properties = Object.entries(ds.properties ?? {}).map(
     ([name, prop]: [string, any]) => ({
       name,
       type: prop.type,
@@ -77,20 +718,33 @@ export async function getDatabaseSchema(token: string, databaseId: string) {
   );
 
   return {
-    id: db.id,
-    title: db.title?.[0]?.plain_text ?? "(untitled)",
+    id: ds.id,
+    title: ds.title?.[0]?.plain_text ?? "(untitled)",
+    last_edited_time: ds.last_edited_time,
     properties,
   };
 }
 
-// ── Query a database with optional filter + sort ──
+export async function getDatabaseSchema(token: string, dataSourceId: string, cache?: NotionCache) {
+  const key = schemaCacheKey(dataSourceId);
+  const cached = cache?.get<DatabaseSchema>(key);
+  if (cached) return cached;
+
+  const ds = await notionFetch(token, `/data_sources/${dataSourceId}`);
+  const schema = toSchema(ds);
+  cache?.put(key, schema, SCHEMA_CACHE_TTL_SECONDS);
+  return schema;
+}
+
+// ── Query a data source with optional filter + sort ──
 export async function queryDatabase(
   token: string,
-  databaseId: string,
+  dataSourceId: string,
   filter?: any,
   sorts?: any[],
   pageSize?: number,
   startCursor?: string,
+  format: RichTextFormat = "plain",
 ) {
   const allPages: any[] = [];
   let cursor: string | undefined = startCursor;
@@ -102,21 +756,13 @@ export async function queryDatabase(
     if (sorts) body.sorts = sorts;
     if (cursor) body.start_cursor = cursor;
 
-    let res: any;
-    try {
-      res = await notionFetch(token, `/data_sources/${databaseId}/query`, {
-        method: "POST",
-        body: JSON.stringify(body),
-      });
-    } catch {
-      res = await notionFetch(token, `/databases/${databaseId}/query`, {
-        method: "POST",
-        body: JSON.stringify(body),
-      });
-    }
+    const res = await notionFetch(token, `/data_sources/${dataSourceId}/query`, {
+      method: "POST",
+      body: JSON.stringify(body),
+    });
 
     for (const page of res.results) {
-      allPages.push(flattenPage(page));
+      allPages.push(flattenPage(page, format));
     }
 
     if (manualPagination) {
@@ -133,10 +779,105 @@ export async function queryDatabase(
   return { results: allPages, has_more: false, next_cursor: null };
 }
 
+// ── Export a data source as CSV or JSON Lines ──
+// Rows are read with queryDatabase's pagination, up to maxRows per call; the Notion
+// cursor of the next row is returned so the caller can continue where a chunk ended.
+const EXPORT_DEFAULT_ROWS = 500;
+const EXPORT_MAX_ROWS = 2000;
+
+export interface ExportOptions {
+  format: ExportFormat;
+  /** Columns in output order: property names and/or id, url, created_time, last_edited_time. */
+  columns?: string[];
+  /** Joins multi-value cells (multi_select, people, relation, files) in CSV. */
+  delimiter?: string;
+  filter?: any;
+  sorts?: any[];
+  maxRows?: number;
+  startCursor?: string;
+}
+
+export async function exportDatabase(token: string, dataSourceId: string, opts: ExportOptions, cache?: NotionCache) {
+  const schema = await getDatabaseSchema(token, dataSourceId, cache);
+  const title = schema.properties.filter((p) => p.type === "title").map((p) => p.name);
+  const others = schema.properties.filter((p) => p.type !== "title").map((p) => p.name);
+
+  const columns = opts.columns ?? ["id", ...title, ...others];
+  const valid = new Set<string>([...PAGE_COLUMNS, ...title, ...others]);
+  const unknown = columns.filter((c) => !valid.has(c));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown column${unknown.length > 1 ? "s" : ""} ${unknown.map((c) => `"${c}"`).join(", ")}. Valid columns: ${[...valid].join(", ")}`);
+  }
+
+  const maxRows = Math.min(Math.max(opts.maxRows ?? EXPORT_DEFAULT_ROWS, 1), EXPORT_MAX_ROWS);
+  const rows: any[] = [];
+  let cursor = opts.startCursor;
+  do {
+    const page = await queryDatabase(token, dataSourceId, opts.filter, opts.sorts, Math.min(100, maxRows - rows.length), cursor);
+    rows.push(...page.results);
+    cursor = page.has_more ? (page.next_cursor ?? undefined) : undefined;
+  } while (cursor && rows.length < maxRows);
+
+  const data =
+    opts.format === "csv"
+      ? toCsv(rows, columns, opts.delimiter ?? "; ", opts.startCursor === undefined)
+      : toJsonl(rows, columns);
+  return { data, columns, row_count: rows.length, has_more: cursor !== undefined, next_cursor: cursor ?? null };
+}
+
+// ── Snapshots for watches ──
+// Rows are read with their titles so a diff can name what changed. The title property
+// always has the ID "title", which lets the removal sweep ask for nothing else.
+export async function snapshotRows(
+  token: string,
+  dataSourceId: string,
+  filter: any,
+  maxRows: number,
+  cache?: NotionCache,
+): Promise<{ title: string; rows: SnapshotRow[]; truncated: boolean }> {
+  const schema = await getDatabaseSchema(token, dataSourceId, cache);
+  const titleProperty = schema.properties.find((p) => p.type === "title")?.name;
+  const rows: SnapshotRow[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await queryDatabase(token, dataSourceId, filter, undefined, 100, cursor);
+    for (const row of page.results) {
+      rows.push({
+        id: row.id,
+        title: (titleProperty && row.properties[titleProperty]) || "(untitled)",
+        last_edited_time: row.last_edited_time,
+        properties: row.properties,
+      });
+    }
+    cursor = page.has_more ? (page.next_cursor ?? undefined) : undefined;
+  } while (cursor && rows.length < maxRows);
+  return { title: schema.title, rows, truncated: cursor !== undefined };
+}
+
+export async function listRowIds(token: string, dataSourceId: string, maxRows: number) {
+  const ids = new Set<string>();
+  let cursor: string | undefined;
+  do {
+    const res = await notionFetch(token, `/data_sources/${dataSourceId}/query?filter_properties[]=title`, {
+      method: "POST",
+      body: JSON.stringify({ page_size: 100, ...(cursor ? { start_cursor: cursor } : {}) }),
+    });
+    for (const page of res.results) ids.add(formatId(page.id));
+    cursor = res.has_more ? (res.next_cursor ?? undefined) : undefined;
+  } while (cursor && ids.size < maxRows);
+  return { ids, truncated: cursor !== undefined };
+}
+
+export async function snapshotPage(token: string, pageId: string): Promise<SnapshotRow> {
+  const page = await notionFetch(token, `/pages/${pageId}`);
+  const { id, last_edited_time, properties } = flattenPage(page);
+  return { id, title: titleOf(page), last_edited_time: last_edited_time!, properties };
+}
+
 // ── Get a single page's properties ──
-export async function getPage(token: string, pageId: string) {
+export async function getPage(token: string, pageId: string, format: RichTextFormat = "plain") {
   const page = await notionFetch(token, `/pages/${pageId}`);
-  return flattenPage(page);
+  return flattenPage(page, format);
 }
 
 // ── Create a new database under a parent page ──
@@ -173,23 +914,18 @@ export async function createDatabase(token: string, opts: {
   };
 }
 
-// ── Archive (delete) a database ──
-export async function archiveDatabase(token: string, databaseId: string) {
-  const body = JSON.stringify({ archived: true });
-  try {
-    const db = await notionFetch(token, `/data_sources/${databaseId}`, { method: "PATCH", body });
-    return { id: db.id, archived: true };
-  } catch {
-    const db = await notionFetch(token, `/databases/${databaseId}`, { method: "PATCH", body });
-    return { id: db.id, archived: true };
-  }
+// ── Archive (delete) a data source or a whole database container ──
+export async function archiveDatabase(token: string, target: ResolvedId) {
+  const path = target.kind === "database" ? `/databases/${target.id}` : `/data_sources/${target.id}`;
+  const db = await notionFetch(token, path, { method: "PATCH", body: JSON.stringify({ archived: true }) });
+  return { id: db.id, kind: target.kind, archived: true };
 }
 
-// ── Update database properties (add/rename/remove columns) ──
-export async function updateDatabase(token: string, databaseId: string, updates: {
+// ── Update data source properties (add/rename/remove columns) ──
+export async function updateDatabase(token: string, dataSourceId: string, updates: {
   title?: string;
   properties?: Record<string, any>;
-}) {
+}, cache?: NotionCache) {
   const body: any = {};
   if (updates.title !== undefined) {
     body.title = [{ type: "text", text: { content: updates.title } }];
@@ -198,18 +934,12 @@ export async function updateDatabase(token: string, databaseId: string, updates:
     body.properties = updates.properties;
   }
 
-  let db: any;
-  try {
-    db = await notionFetch(token, `/data_sources/${databaseId}`, {
-      method: "PATCH",
-      body: JSON.stringify(body),
-    });
-  } catch {
-    db = await notionFetch(token, `/databases/${databaseId}`, {
-      method: "PATCH",
-      body: JSON.stringify(body),
-    });
-  }
+  const db = await notionFetch(token, `/data_sources/${dataSourceId}`, {
+    method: "PATCH",
+    body: JSON.stringify(body),
+  });
+  // The PATCH response is the full data source, so refresh the cached schema from it.
+  cache?.put(schemaCacheKey(dataSourceId), toSchema(db), SCHEMA_CACHE_TTL_SECONDS);
 
   return {
     id: db.id,
@@ -224,6 +954,9 @@ export async function createPage(token: string, opts: {
   parent: { data_source_id?: string; database_id?: string; page_id?: string };
   properties?: Record<string, any>;
   children?: any[];
+  icon?: any;
+  cover?: any;
+  richText?: RichTextInput;
 }) {
   const body: any = {};
 
@@ -235,65 +968,591 @@ export async function createPage(token: string, opts: {
     body.parent = { page_id: opts.parent.page_id };
   }
 
-  if (opts.properties) body.properties = opts.properties;
-  if (opts.children) body.children = opts.children;
+  if (opts.properties) body.properties = normalizePropertyRichText(opts.properties, opts.richText);
+  if (opts.icon) body.icon = opts.icon;
+  if (opts.cover) body.cover = opts.cover;
+
+  // Small, shallow bodies go in the create request; anything bigger is appended after.
+  const children = (opts.children ?? []).map((block) => normalizeBlockRichText(block, opts.richText));
+  const fitsInline =
+    children.length <= MAX_BLOCKS_PER_REQUEST && splitForRequest(children, MAX_NESTING_LEVELS).pending.length === 0;
+  if (children.length > 0 && fitsInline) body.children = children;
 
   const page = await notionFetch(token, "/pages", {
     method: "POST",
     body: JSON.stringify(body),
   });
+  if (children.length > 0 && !fitsInline) await appendBlockChildren(token, page.id, children);
 
   return flattenPage(page);
 }
 
-// ── Update a page's properties ──
-export async function updatePage(token: string, pageId: string, properties: Record<string, any>) {
-  const page = await notionFetch(token, `/pages/${pageId}`, {
-    method: "PATCH",
-    body: JSON.stringify({ properties }),
-  });
-  return flattenPage(page);
+// ── Users ──
+export interface WorkspaceUser {
+  id: string;
+  type: "person" | "bot";
+  name: string | null;
+  email: string | null;
+  avatar_url: string | null;
 }
 
-// ── Batch update multiple pages' properties concurrently ──
-export async function batchUpdatePages(
-  token: string,
-  updates: Array<{ page_id: string; properties: Record<string, any> }>,
-) {
-  const results = await Promise.allSettled(
-    updates.map(({ page_id, properties }) => updatePage(token, page_id, properties)),
-  );
+const USERS_CACHE_KEY = "users";
+const USERS_CACHE_TTL_SECONDS = 10 * 60;
 
-  return results.map((r, i) => ({
-    page_id: formatId(updates[i].page_id),
-    status: r.status === "fulfilled" ? "success" : "error",
-    ...(r.status === "fulfilled" ? { page: r.value } : { error: (r.reason as Error).message }),
-  }));
+function flattenUser(user: any): WorkspaceUser {
+  return {
+    id: user.id,
+    type: user.type,
+    name: user.name ?? null,
+    email: user.person?.email ?? null,
+    avatar_url: user.avatar_url ?? null,
+  };
 }
 
-// ── Archive (delete) a page ──
-export async function archivePage(token: string, pageId: string) {
-  const page = await notionFetch(token, `/pages/${pageId}`, {
-    method: "PATCH",
-    body: JSON.stringify({ archived: true }),
-  });
+async function fetchAllUsers(token: string) {
+  const users: any[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const qs = cursor ? `?start_cursor=${cursor}&page_size=100` : "?page_size=100";
+    const res = await notionFetch(token, `/users${qs}`);
+    users.push(...res.results);
+    cursor = res.has_more ? (res.next_cursor ?? undefined) : undefined;
+  } while (cursor);
+
+  return users;
+}
+
+/** Lists the workspace's people and bots. Cached for a few minutes unless `refresh` is set. */
+export async function listUsers(token: string, cache?: NotionCache, refresh = false): Promise<WorkspaceUser[]> {
+  const cached = refresh ? undefined : cache?.get<WorkspaceUser[]>(USERS_CACHE_KEY);
+  if (cached) return cached;
+
+  const users = (await fetchAllUsers(token)).map(flattenUser);
+  cache?.put(USERS_CACHE_KEY, users, USERS_CACHE_TTL_SECONDS);
+  return users;
+}
+
+/** The integration's bot user. */
+export async function getSelf(token: string) {
+  const me = await notionFetch(token, "/users/me");
+  return { ...flattenUser(me), owner: me.bot?.owner ?? null };
+}
+
+function matchUsers(users: WorkspaceUser[], value: string): WorkspaceUser[] {
+  const needle = value.trim().toLowerCase();
+  const byEmail = users.filter((u) => u.email?.toLowerCase() === needle);
+  return byEmail.length > 0 ? byEmail : users.filter((u) => u.name?.toLowerCase() === needle);
+}
+
+// Matches people given as user IDs, emails or names (case-insensitive) to user IDs.
+// A cached directory that doesn't know a name is refreshed once before giving up.
+export async function resolvePeople(token: string, values: string[], cache?: NotionCache): Promise<string[]> {
+  if (values.every(isNotionId)) return values.map(formatId);
+
+  let users = await listUsers(token, cache);
+  if (values.some((v) => !isNotionId(v) && matchUsers(users, v).length === 0) && cache) {
+    users = await listUsers(token, cache, true);
+  }
+
+  return values.map((value) => {
+    if (isNotionId(value)) return formatId(value);
+    const matches = matchUsers(users, value);
+    if (matches.length === 1) return matches[0].id;
+    if (matches.length > 1) {
+      throw new Error(`"${value}" matches several users (${matches.map((u) => u.id).join(", ")}); use an email or user ID`);
+    }
+    throw new Error(`no workspace user with name or email "${value}"; see list-users`);
+  });
+}
+
+// Raw people payloads may name users by email or name instead of ID:
+// { "people": [{ "id": "ada@example.com" }] } or [{ "name": "Ada Lovelace" }].
+async function resolveRawPeople(token: string, values: Record<string, any>, cache?: NotionCache) {
+  const out: Record<string, any> = { ...values };
+  for (const [name, value] of Object.entries(values)) {
+    if (!Array.isArray(value?.people) || !isRawPropertyValue(value)) continue;
+    const refs = value.people.map((p: any) => String(p.id ?? p.person?.email ?? p.name ?? ""));
+    if (refs.every(isNotionId)) continue;
+    const ids = await resolvePeople(token, refs, cache);
+    out[name] = { ...value, people: ids.map((id) => ({ id })) };
+  }
+  return out;
+}
+
+// ── Build property payloads from simple values ──
+// Raw Notion payloads pass through; simple values ("Done", ["a", "b"], "2026-10-20", true)
+// are converted using the column types of the target data source or page. A page the
+// caller already fetched can be passed as target.page to save a request.
+export async function preparePropertyValues(
+  token: string,
+  values: Record<string, any>,
+  target: { dataSourceId?: string; pageId?: string; page?: any; richText?: RichTextInput },
+  cache?: NotionCache,
+): Promise<Record<string, any>> {
+  values = normalizePropertyRichText(await resolveRawPeople(token, values, cache), target.richText);
+  if (!hasSimpleValues(values)) return values;
+
+  let types: Record<string, PropertyType>;
+  let dataSourceId = target.dataSourceId;
+  let page = target.page;
+  if (!dataSourceId && !page && target.pageId) {
+    page = await notionFetch(token, `/pages/${target.pageId}`);
+  }
+  if (!dataSourceId && page) {
+    dataSourceId = page.parent?.data_source_id;
+  }
+
+  if (dataSourceId) {
+    const schema = await getDatabaseSchema(token, dataSourceId, cache);
+    types = Object.fromEntries(schema.properties.map((p) => [p.name, p]));
+  } else {
+    // Standalone pages: the page's own properties (usually just the title) give the types.
+    types = Object.fromEntries(Object.entries(page?.properties ?? {}).map(([name, p]: [string, any]) => [name, { type: p.type }]));
+  }
+
+  return buildPropertyPayload(
+    values,
+    types,
+    (people) => resolvePeople(token, people, cache),
+    (id) => formatId(normalizeId(id)),
+    target.richText,
+  );
+}
+
+// ── Update a page's properties ──
+export async function updatePage(token: string, pageId: string, properties: Record<string, any>) {
+  const page = await notionFetch(token, `/pages/${pageId}`, {
+    method: "PATCH",
+    body: JSON.stringify({ properties: normalizePropertyRichText(properties) }),
+  });
+  return flattenPage(page);
+}
+
+// ── Batch update multiple pages' properties concurrently ──
+// Simple property values are converted per page; pass the pages' data source to convert
+// them from its (cached) schema instead of fetching every page first. With snapshot set,
+// each page is read first and its prior values of the updated properties are returned
+// as `before` on success.
+export async function batchUpdatePages(
+  token: string,
+  updates: Array<{ page_id: string; properties: Record<string, any> }>,
+  opts: {
+    dataSourceId?: string;
+    cache?: NotionCache;
+    snapshot?: boolean;
+    richText?: RichTextInput;
+    /** Raw pages the caller already read, by normalized ID; these aren't read again for the snapshot. */
+    pages?: Map<string, any>;
+  } = {},
+) {
+  const results = await Promise.allSettled(
+    updates.map(async ({ page_id, properties }) => {
+      const page = opts.snapshot ? (opts.pages?.get(normalizeId(page_id)) ?? (await getRawPage(token, page_id))) : undefined;
+      const payload = await preparePropertyValues(
+        token,
+        properties,
+        { dataSourceId: opts.dataSourceId, pageId: page_id, page, richText: opts.richText },
+        opts.cache,
+      );
+      const updated = await updatePage(token, page_id, payload);
+      return { page: updated, before: page && pickProperties(page, Object.keys(payload)) };
+    }),
+  );
+
+  return results.map((r, i) => ({
+    page_id: formatId(updates[i].page_id),
+    status: r.status === "fulfilled" ? "success" : "error",
+    ...(r.status === "fulfilled" ? r.value : describeError(r.reason)),
+  }));
+}
+
+// ── Import CSV rows as pages of a data source ──
+// Each created row is one request, so a call imports at most IMPORT_MAX_ROWS rows and
+// returns the row to resume from. Dry runs write nothing and check every row.
+const IMPORT_MAX_ROWS = 40;
+const IMPORT_CONCURRENCY = 3;
+const MULTI_VALUE_TYPES = new Set(["multi_select", "people", "relation", "files"]);
+const OPTION_TYPES = new Set(["select", "multi_select"]);
+
+export interface ImportOptions {
+  /** CSV header → property name; null ignores the column. Unmapped headers are matched by name. */
+  mapping?: Record<string, string | null>;
+  /** Separator inside multi-value cells (default ";"). */
+  delimiter?: string;
+  createMissingOptions?: boolean;
+  dryRun?: boolean;
+  /** Row number (the header is row 1) to start from, to continue an earlier import. */
+  startRow?: number;
+}
+
+function inferMapping(headers: string[], schema: DatabaseSchema, explicit: Record<string, string | null> = {}) {
+  const byName = new Map(schema.properties.map((p) => [p.name, p]));
+  const byLowerName = new Map(schema.properties.map((p) => [p.name.trim().toLowerCase(), p]));
+  const mapping: Record<string, string> = {};
+  const unmapped: string[] = [];
+  const errors: string[] = [];
+
+  for (const header of Object.keys(explicit)) {
+    if (!headers.includes(header)) errors.push(`Mapping names column "${header}", which isn't in the CSV header. Columns: ${headers.join(", ")}`);
+  }
+  for (const header of headers) {
+    const target = header in explicit ? explicit[header] : (byName.get(header) ?? byLowerName.get(header.trim().toLowerCase()))?.name;
+    if (target === null) continue;
+    if (target === undefined) {
+      // Export columns such as id and url have no property to go into.
+      if (!(PAGE_COLUMNS as readonly string[]).includes(header)) unmapped.push(header);
+      continue;
+    }
+    const prop = byName.get(target);
+    if (!prop) {
+      errors.push(`Column "${header}" maps to unknown property "${target}". Valid properties: ${[...byName.keys()].join(", ")}`);
+    } else if (isReadOnlyPropertyType(prop.type)) {
+      errors.push(`Column "${header}" maps to "${target}", a ${prop.type} property that Notion computes and can't be set`);
+    } else {
+      mapping[header] = target;
+    }
+  }
+
+  if (errors.length > 0) throw new Error(errors.join("\n"));
+  return { mapping, unmapped };
+}
+
+export async function importCsv(token: string, dataSourceId: string, csv: string, opts: ImportOptions = {}, cache?: NotionCache) {
+  const [headers, ...records] = parseCsv(csv);
+  if (!headers) throw new Error("CSV is empty");
+  const schema = await getDatabaseSchema(token, dataSourceId, cache);
+  const { mapping, unmapped } = inferMapping(headers, schema, opts.mapping);
+  const types = new Map(schema.properties.map((p) => [p.name, p]));
+  const split = (opts.delimiter ?? ";").trim() || opts.delimiter || ";";
+
+  // Row numbers count the header as row 1, as in a spreadsheet.
+  const rows = records.map((cells, i) => {
+    const values: Record<string, any> = {};
+    headers.forEach((header, col) => {
+      const name = mapping[header];
+      const cell = (cells[col] ?? "").trim();
+      if (!name || cell === "") return;
+      values[name] = MULTI_VALUE_TYPES.has(types.get(name)!.type)
+        ? cell.split(split).map((v) => v.trim()).filter(Boolean)
+        : cell;
+    });
+    return { row: i + 2, values };
+  });
+
+  // Select and multi-select values that aren't options yet.
+  const missing = new Map<string, Set<string>>();
+  for (const { values } of rows) {
+    for (const [name, value] of Object.entries(values)) {
+      const prop = types.get(name)!;
+      if (!OPTION_TYPES.has(prop.type)) continue;
+      for (const option of [value].flat() as string[]) {
+        if (prop.options?.includes(option)) continue;
+        if (!missing.has(name)) missing.set(name, new Set());
+        missing.get(name)!.add(option);
+      }
+    }
+  }
+  const missingOptions = Object.fromEntries([...missing].map(([name, options]) => [name, [...options]]));
+
+  const startRow = Math.max(opts.startRow ?? 2, 2);
+  const pending = rows.filter((r) => r.row >= startRow);
+  const batch = opts.dryRun ? pending : pending.slice(0, IMPORT_MAX_ROWS);
+
+  const missingFor = (values: Record<string, any>) =>
+    Object.entries(values).flatMap(([name, value]) =>
+      missing.has(name)
+        ? ([value].flat() as string[]).filter((o) => missing.get(name)!.has(o)).map((o) => `"${o}" is not an option of "${name}"`)
+        : [],
+    );
+
+  if (missing.size > 0 && opts.createMissingOptions && !opts.dryRun) {
+    const properties: Record<string, any> = {};
+    for (const [name, options] of missing) {
+      const prop = types.get(name)!;
+      // Options left out of an update are deleted, so send the existing ones too.
+      properties[name] = { [prop.type]: { options: [...(prop.options ?? []), ...options].map((o) => ({ name: o })) } };
+    }
+    await updateDatabase(token, dataSourceId, { properties }, cache);
+  }
+  const rejectMissing = missing.size > 0 && !opts.createMissingOptions;
+
+  const results: any[] = [];
+  await mapWithConcurrency(batch, IMPORT_CONCURRENCY, async ({ row, values }) => {
+    try {
+      const problems = rejectMissing ? missingFor(values) : [];
+      if (problems.length > 0) throw new Error(`${problems.join("; ")} (pass create_missing_options to add them)`);
+      const properties = await preparePropertyValues(token, values, { dataSourceId }, cache);
+      if (opts.dryRun) {
+        results.push({ row, status: "valid" });
+        return;
+      }
+      const page = await createPage(token, { parent: { data_source_id: dataSourceId }, properties });
+      results.push({ row, status: "success", id: page.id, url: page.url });
+    } catch (err) {
+      results.push({ row, status: "error", ...describeError(err) });
+    }
+  });
+  results.sort((a, b) => a.row - b.row);
+
+  const remaining = pending.length - batch.length;
+  return {
+    dry_run: opts.dryRun ?? false,
+    mapping,
+    unmapped_columns: unmapped,
+    ...(missing.size > 0
+      ? opts.createMissingOptions
+        ? { [opts.dryRun ? "options_to_create" : "options_created"]: missingOptions }
+        : { missing_options: missingOptions }
+      : {}),
+    total_rows: rows.length,
+    processed: batch.length,
+    succeeded: results.filter((r) => r.status !== "error").length,
+    failed: results.filter((r) => r.status === "error").length,
+    ...(remaining > 0 ? { remaining_rows: remaining, next_row: pending[batch.length].row } : {}),
+    results,
+  };
+}
+
+// ── Archive (delete) a page ──
+export async function archivePage(token: string, pageId: string) {
+  const page = await notionFetch(token, `/pages/${pageId}`, {
+    method: "PATCH",
+    body: JSON.stringify({ archived: true }),
+  });
   return { id: page.id, archived: true };
 }
 
+// ── File uploads ──
+// Files are sent to Notion in a single request, which Notion accepts up to 20 MB. An
+// upload is held in memory several times over (the base64 argument, the decoded bytes
+// and the copy fetch makes for the request body), so the cap also keeps a call well
+// under the Worker's 128 MB memory limit. Base64 is decoded in slices rather than
+// through one full-size binary string.
+const MAX_UPLOAD_BYTES = 20 * 1024 * 1024;
+// A multiple of 4 characters, so every slice decodes on its own.
+const BASE64_SLICE_CHARS = 1024 * 1024;
+
+export interface UploadSource {
+  /** Base64 content, optionally as a data: URL. */
+  base64?: string;
+  /** A URL the server downloads the file from. */
+  url?: string;
+  filename?: string;
+  contentType?: string;
+}
+
+function formatBytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function checkUploadSize(bytes: number) {
+  if (bytes > MAX_UPLOAD_BYTES) {
+    throw new Error(`File is ${formatBytes(bytes)}; uploads through this server are limited to ${formatBytes(MAX_UPLOAD_BYTES)}`);
+  }
+  if (bytes === 0) throw new Error("File is empty");
+}
+
+function base64Length(encoded: string): number {
+  return Math.floor((encoded.length * 3) / 4) - (encoded.match(/=+$/)?.[0].length ?? 0);
+}
+
+function decodeBase64(encoded: string): Uint8Array {
+  const bytes = new Uint8Array(Math.max(base64Length(encoded), 0));
+  let offset = 0;
+  for (let i = 0; i < encoded.length; i += BASE64_SLICE_CHARS) {
+    let slice: string;
+    try {
+      slice = atob(encoded.slice(i, i + BASE64_SLICE_CHARS));
+    } catch {
+      throw new Error("base64 content is not valid base64");
+    }
+    if (offset + slice.length > bytes.length) throw new Error("base64 content is not valid base64");
+    for (let j = 0; j < slice.length; j++) bytes[offset++] = slice.charCodeAt(j);
+  }
+  return offset === bytes.length ? bytes : bytes.subarray(0, offset);
+}
+
+async function readUploadSource(source: UploadSource): Promise<{ bytes: Uint8Array; filename: string; contentType?: string }> {
+  if (!source.base64 === !source.url) throw new Error("Pass exactly one of base64 or url");
+
+  if (source.base64 !== undefined) {
+    if (!source.filename) throw new Error("filename is required when uploading base64 content");
+    const dataUrl = source.base64.match(/^data:([^;,]+)?(?:;[^,]*)?,/);
+    const encoded = source.base64.slice(dataUrl?.[0].length ?? 0).replace(/\s+/g, "");
+    // Check the decoded size before allocating it.
+    checkUploadSize(base64Length(encoded));
+    return {
+      bytes: decodeBase64(encoded),
+      filename: source.filename,
+      contentType: source.contentType ?? dataUrl?.[1],
+    };
+  }
+
+  const res = await fetch(source.url!);
+  if (!res.ok) {
+    await res.body?.cancel();
+    throw new Error(`Downloading ${source.url} failed with HTTP ${res.status}`);
+  }
+  const declared = Number(res.headers.get("content-length"));
+  if (declared > MAX_UPLOAD_BYTES) {
+    await res.body?.cancel();
+    checkUploadSize(declared);
+  }
+  const bytes = new Uint8Array(await res.arrayBuffer());
+  checkUploadSize(bytes.length);
+  return {
+    bytes,
+    filename: source.filename ?? (decodeURIComponent(new URL(source.url!).pathname.split("/").pop() ?? "") || "file"),
+    contentType: source.contentType ?? res.headers.get("content-type")?.split(";")[0] ?? undefined,
+  };
+}
+
+
+/**
+ * Uploads a file to Notion and returns its file upload ID, which can be attached to
+ * files properties and image/file/pdf blocks within an hour.
+ */
+export async function uploadFile(token: string, source: UploadSource) {
+  const { bytes, filename, contentType } = await readUploadSource(source);
+
+  const upload = await notionFetch(token, "/file_uploads", {
+    method: "POST",
+    body: JSON.stringify({
+      mode: "single_part",
+      filename,
+      ...(contentType ? { content_type: contentType } : {}),
+    }),
+  });
+
+  const form = new FormData();
+  form.append("file", new Blob([bytes], contentType ? { type: contentType } : {}), filename);
+  const result = await notionFetch(token, `/file_uploads/${upload.id}/send`, { method: "POST", body: form });
+
+  return {
+    id: result.id,
+    status: result.status,
+    filename: result.filename ?? filename,
+    content_type: result.content_type ?? contentType ?? null,
+    content_length: result.content_length ?? bytes.length,
+    expiry_time: result.expiry_time ?? null,
+  };
+}
+
 // ── Append blocks to a page or block ──
-export async function appendBlockChildren(token: string, blockId: string, children: any[]) {
-  const res = await notionFetch(token, `/blocks/${blockId}/children`, {
-    method: "PATCH",
-    body: JSON.stringify({ children }),
+// Notion takes at most 100 blocks per request and two levels of children below the
+// blocks sent. Trees beyond that are sent in chunks, and deeper children are appended
+// under the created blocks.
+const MAX_BLOCKS_PER_REQUEST = 100;
+const MAX_NESTING_LEVELS = 2;
+// Block types that can't be created empty; their children always go in the same request.
+const INLINE_CHILDREN_TYPES = new Set(["table", "column_list", "column"]);
+
+interface PendingChildren {
+  /** Position of the created block among its siblings in the request. */
+  index: number;
+  /** Children still to append under that block. */
+  children: any[];
+  /** Pending children of that block's inline children. */
+  nested: PendingChildren[];
+}
+
+function childrenOf(block: any): any[] {
+  return block[block.type]?.children ?? block.children ?? [];
+}
+
+function withoutChildren(block: any): any {
+  const { children: _children, ...rest } = block;
+  const { children: _nested, ...content } = block[block.type] ?? {};
+  return { ...rest, [block.type]: content };
+}
+
+// Levels of children a block must be sent with: a column_list needs its columns and
+// their content, a table its rows, anything else none.
+function requiredLevels(block: any): number {
+  if (!INLINE_CHILDREN_TYPES.has(block.type)) return 0;
+  return 1 + Math.max(0, ...childrenOf(block).map(requiredLevels));
+}
+
+// Splits blocks into the part one request can carry, with at most `levels` levels of
+// children below them, and the children to append afterwards. A child that needs more
+// levels than are left (e.g. a column_list inside a toggle) is deferred together with
+// the siblings after it, so the follow-up append keeps their order.
+function splitForRequest(blocks: any[], levels: number): { inline: any[]; pending: PendingChildren[] } {
+  const inline: any[] = [];
+  const pending: PendingChildren[] = [];
+
+  blocks.forEach((block, index) => {
+    const copy = withoutChildren(block);
+    const children = childrenOf(block);
+    inline.push(copy);
+    if (children.length === 0) return;
+
+    // Blocks that can't be created empty keep their children, even past the limit.
+    const keepAll = INLINE_CHILDREN_TYPES.has(block.type);
+    const candidates = levels > 0 || keepAll ? children.slice(0, MAX_BLOCKS_PER_REQUEST) : [];
+    const tooDeep = keepAll ? -1 : candidates.findIndex((child) => requiredLevels(child) > levels - 1);
+    const count = tooDeep === -1 ? candidates.length : tooDeep;
+
+    const sub = splitForRequest(children.slice(0, count), levels - 1);
+    if (count > 0) copy[block.type].children = sub.inline;
+    const rest = children.slice(count);
+    if (rest.length > 0 || sub.pending.length > 0) pending.push({ index, children: rest, nested: sub.pending });
   });
-  return res.results.map(flattenBlock);
+
+  return { inline, pending };
+}
+
+async function appendPending(token: string, blockId: string, pending: PendingChildren) {
+  if (pending.nested.length > 0) {
+    // Inline children were created in order; list them to learn their IDs.
+    const { blocks: created } = await listBlockChildren(token, blockId);
+    for (const nested of pending.nested) {
+      await appendPending(token, created[nested.index].id, nested);
+    }
+  }
+  if (pending.children.length > 0) await appendBlockChildren(token, blockId, pending.children);
+}
+
+export async function appendBlockChildren(token: string, blockId: string, children: any[], richText?: RichTextInput) {
+  const created: any[] = [];
+
+  for (let i = 0; i < children.length; i += MAX_BLOCKS_PER_REQUEST) {
+    const chunk = children.slice(i, i + MAX_BLOCKS_PER_REQUEST).map((block) => normalizeBlockRichText(block, richText));
+    const { inline, pending } = splitForRequest(chunk, MAX_NESTING_LEVELS);
+    const res = await notionFetch(token, `/blocks/${blockId}/children`, {
+      method: "PATCH",
+      body: JSON.stringify({ children: inline }),
+    });
+    for (const p of pending) {
+      await appendPending(token, res.results[p.index].id, p);
+    }
+    created.push(...res.results);
+  }
+
+  return created.map((block) => flattenBlock(block));
 }
 
 // ── Update a single block ──
-export async function updateBlock(token: string, blockId: string, block: Record<string, any>) {
+// Markdown replaces the block's content. It must describe one block without children;
+// if its type differs from the block's (e.g. plain text for a to-do), only the text is used.
+export async function updateBlockFromMarkdown(token: string, blockId: string, markdown: string) {
+  const parsed = markdownToBlocks(markdown);
+  if (parsed.length !== 1 || childrenOf(parsed[0]).length > 0) {
+    throw new Error("markdown for update-block must describe exactly one block with no nested content");
+  }
+
+  const existing = await notionFetch(token, `/blocks/${blockId}`);
+  const [block] = parsed;
+  const content =
+    block.type === existing.type ? block[block.type] : { rich_text: block[block.type]?.rich_text ?? [] };
+  return updateBlock(token, blockId, { [existing.type]: content });
+}
+
+export async function updateBlock(token: string, blockId: string, block: Record<string, any>, richText?: RichTextInput) {
   const res = await notionFetch(token, `/blocks/${blockId}`, {
     method: "PATCH",
-    body: JSON.stringify(block),
+    body: JSON.stringify(normalizeBlockRichText(block, richText)),
   });
   return flattenBlock(res);
 }
@@ -304,29 +1563,587 @@ export async function deleteBlock(token: string, blockId: string) {
   return { id: blockId, deleted: true };
 }
 
+// ── Snapshots and restores for the audit log ──
+// Snapshots keep the raw Notion objects so undo can write them back; restores convert
+// them to write payloads the same way duplicate-page does.
+export type TrashTarget = { kind: "page" | "block" | "data_source" | "database"; id: string };
+
+export async function getRawPage(token: string, pageId: string) {
+  return notionFetch(token, `/pages/${pageId}`);
+}
+
+export async function getRawBlock(token: string, blockId: string) {
+  return notionFetch(token, `/blocks/${blockId}`);
+}
+
+export async function getRawDataSource(token: string, dataSourceId: string) {
+  return notionFetch(token, `/data_sources/${dataSourceId}`);
+}
+
+/** The page's raw property values for the given names or property IDs, keyed by name. */
+export function pickProperties(page: any, keys: string[]): Record<string, any> {
+  const wanted = new Set(keys);
+  return Object.fromEntries(
+    Object.entries(page.properties ?? {}).filter(([name, prop]: [string, any]) => wanted.has(name) || wanted.has(prop.id)),
+  );
+}
+
+/** Writes raw property values back; computed types (formula, rollup, …) are left out. */
+export async function restoreProperties(token: string, pageId: string, properties: Record<string, any>) {
+  const payload: Record<string, any> = {};
+  for (const [name, prop] of Object.entries(properties)) {
+    if (!isReadOnlyPropertyType(prop.type)) payload[name] = await copyPropertyValue(token, prop);
+  }
+  return updatePage(token, pageId, payload);
+}
+
+/** Writes a raw block's content back over the block (its children are untouched). */
+export async function restoreBlock(token: string, block: any) {
+  const payload = await toCopyPayload({ token, idMap: {} }, block);
+  delete payload[block.type].children;
+  return updateBlock(token, formatId(block.id), { [block.type]: payload[block.type] });
+}
+
+/** Takes a page, block, data source or database out of the trash. */
+export async function restoreFromTrash(token: string, target: TrashTarget) {
+  const path = {
+    page: `/pages/${target.id}`,
+    block: `/blocks/${target.id}`,
+    data_source: `/data_sources/${target.id}`,
+    database: `/databases/${target.id}`,
+  }[target.kind];
+  const res = await notionFetch(token, path, { method: "PATCH", body: JSON.stringify({ archived: false }) });
+  return { id: res.id, kind: target.kind, archived: false };
+}
+
+// Column config as update-database accepts it. Status options can't be edited through
+// the API, so a status column only gets its name back.
+function schemaConfig(prop: any): Record<string, any> {
+  if (prop.type === "status") return { status: {} };
+  const config = { ...prop[prop.type] };
+  if (Array.isArray(config.options)) {
+    config.options = config.options.map((o: any) => ({ name: o.name, color: o.color }));
+  }
+  return { [prop.type]: config };
+}
+
+/**
+ * Reverts an update-database call: `before` is the raw data source as it was, and `keys`
+ * the property keys (names or IDs) the update touched. Renamed and edited columns get
+ * their old name and config back, removed ones are re-created (empty, as Notion drops
+ * their values) and added ones are removed.
+ */
+export async function revertDatabaseSchema(
+  token: string,
+  dataSourceId: string,
+  before: any,
+  changes: { keys: string[]; title: boolean },
+  cache?: NotionCache,
+) {
+  const current = await getRawDataSource(token, dataSourceId);
+  const beforeProps = Object.values(before.properties ?? {}) as any[];
+  const currentProps = Object.values(current.properties ?? {}) as any[];
+  const properties: Record<string, any> = {};
+
+  for (const key of changes.keys) {
+    const old = beforeProps.find((p) => p.name === key || p.id === key);
+    if (old) {
+      const now = currentProps.find((p) => p.id === old.id);
+      if (now) {
+        properties[old.id] = old.type === "title" ? { name: old.name } : { name: old.name, ...schemaConfig(old) };
+      } else {
+        properties[old.name] = schemaConfig(old);
+      }
+    } else {
+      const added = currentProps.find((p) => p.name === key);
+      if (added) properties[added.id] = null;
+    }
+  }
+
+  return updateDatabase(
+    token,
+    dataSourceId,
+    {
+      title: changes.title ? formatRichText(before.title) : undefined,
+      properties: Object.keys(properties).length > 0 ? properties : undefined,
+    },
+    cache,
+  );
+}
+
+// ── Comments ──
+
+// Maps user IDs to names for comment authors. Integrations without the "read user
+// information" capability can't list users, so authors fall back to bare IDs.
+async function userNames(token: string, cache?: NotionCache): Promise<Map<string, string>> {
+  try {
+    const users = await listUsers(token, cache);
+    return new Map(users.map((u) => [u.id, u.name ?? u.email ?? u.id]));
+  } catch (err) {
+    if (err instanceof NotionApiError && err.status === 403) return new Map();
+    throw err;
+  }
+}
+
+function flattenComment(comment: any, names: Map<string, string>, format: RichTextFormat = "plain") {
+  const authorId = comment.created_by?.id;
+  return {
+    id: comment.id,
+    author: { id: authorId, name: comment.display_name?.resolved_name ?? names.get(authorId) ?? null },
+    created_time: comment.created_time,
+    last_edited_time: comment.last_edited_time,
+    text: formatRichText(comment.rich_text, format),
+  };
+}
+
+/** Lists the open comments on a page or block, grouped by discussion thread, oldest first. */
+export async function listComments(
+  token: string,
+  blockId: string,
+  format: RichTextFormat = "plain",
+  cache?: NotionCache,
+) {
+  const comments: any[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const qs = `?block_id=${blockId}&page_size=100${cursor ? `&start_cursor=${cursor}` : ""}`;
+    const res = await notionFetch(token, `/comments${qs}`);
+    comments.push(...res.results);
+    cursor = res.has_more ? (res.next_cursor ?? undefined) : undefined;
+  } while (cursor);
+
+  const names = comments.length > 0 ? await userNames(token, cache) : new Map<string, string>();
+  const discussions = new Map<string, any[]>();
+  for (const comment of comments) {
+    const thread = discussions.get(comment.discussion_id) ?? [];
+    thread.push(flattenComment(comment, names, format));
+    discussions.set(comment.discussion_id, thread);
+  }
+
+  return {
+    count: comments.length,
+    discussions: [...discussions].map(([id, thread]) => ({ discussion_id: id, comments: thread })),
+  };
+}
+
+/**
+ * Adds a comment: a new top-level discussion on a page, or a reply to an existing
+ * discussion. Text takes a plain or Markdown string, compact spans or native rich text.
+ */
+export async function addComment(
+  token: string,
+  opts: { pageId?: string; discussionId?: string; text: unknown; richText?: RichTextInput },
+) {
+  if (!opts.pageId === !opts.discussionId) throw new Error("Pass exactly one of page_id or discussion_id");
+
+  const comment = await notionFetch(token, "/comments", {
+    method: "POST",
+    body: JSON.stringify({
+      ...(opts.pageId ? { parent: { page_id: opts.pageId } } : { discussion_id: opts.discussionId }),
+      rich_text: parseRichTextInput(opts.text, opts.richText),
+    }),
+  });
+  return { discussion_id: comment.discussion_id, ...flattenComment(comment, new Map()) };
+}
+
 // ── Get page content (blocks) ──
-export async function getPageBlocks(token: string, pageId: string) {
+async function listBlockChildren(token: string, blockId: string) {
   const blocks: any[] = [];
   let cursor: string | undefined;
 
   do {
     const qs = cursor ? `?start_cursor=${cursor}&page_size=100` : "?page_size=100";
-    const res = await notionFetch(token, `/blocks/${pageId}/children${qs}`);
+    const res = await notionFetch(token, `/blocks/${blockId}/children${qs}`);
     blocks.push(...res.results);
     cursor = res.has_more ? (res.next_cursor ?? undefined) : undefined;
   } while (cursor);
 
-  return blocks.map(flattenBlock);
+  return { blocks };
+}
+
+export async function getPageBlocks(token: string, pageId: string) {
+  const { blocks } = await listBlockChildren(token, pageId);
+  return blocks.map((block) => flattenBlock(block));
+}
+
+// ── Recursive block tree ──
+export interface BlockTreeOptions {
+  /** Levels of blocks to fetch; 1 = top-level blocks only. */
+  maxDepth?: number;
+  /** Total blocks to fetch across the whole tree. */
+  maxBlocks?: number;
+}
+
+export interface BlockTree {
+  /** Raw Notion blocks; those whose children were fetched carry a `children` array. */
+  blocks: any[];
+  block_count: number;
+  truncated: boolean;
+  /** Which limits cut the tree short. */
+  truncated_by: Array<"max_depth" | "max_blocks" | "request_budget">;
+}
+
+const DEFAULT_TREE_DEPTH = 5;
+const DEFAULT_TREE_BLOCKS = 500;
+// Children are fetched in parallel, at most this many requests at a time across the whole
+// walk; the shared pacer keeps the overall rate in check.
+const TREE_CONCURRENCY = 3;
+// Stay under the Workers subrequest ceiling (see batch-update-pages) however wide the tree
+// is. Every request counts, including each page of a long child list.
+const TREE_REQUEST_BUDGET = 45;
+
+// Child pages and databases are separate objects, not nested content.
+const NON_NESTED_BLOCK_TYPES = new Set(["child_page", "child_database"]);
+
+export async function getBlockTree(token: string, blockId: string, opts: BlockTreeOptions = {}): Promise<BlockTree> {
+  const maxDepth = opts.maxDepth ?? DEFAULT_TREE_DEPTH;
+  const maxBlocks = opts.maxBlocks ?? DEFAULT_TREE_BLOCKS;
+  const truncatedBy = new Set<BlockTree["truncated_by"][number]>();
+  const limit = createLimiter(TREE_CONCURRENCY);
+  let blockCount = 0;
+  let requests = 0;
+
+  // Returns undefined when no request could be made, so the parent is left without `children`.
+  async function fetchLevel(parentId: string, depth: number): Promise<any[] | undefined> {
+    let blocks: any[] | undefined;
+    let cursor: string | undefined;
+    do {
+      if (blockCount >= maxBlocks) {
+        truncatedBy.add("max_blocks");
+        break;
+      }
+      if (requests >= TREE_REQUEST_BUDGET) {
+        truncatedBy.add("request_budget");
+        break;
+      }
+      requests++;
+      const qs = cursor ? `?start_cursor=${cursor}&page_size=100` : "?page_size=100";
+      const res = await limit(() => notionFetch(token, `/blocks/${parentId}/children${qs}`));
+      // Other branches fetch concurrently, so re-check the block limit once the response is in.
+      const kept = res.results.slice(0, Math.max(0, maxBlocks - blockCount));
+      blockCount += kept.length;
+      if (kept.length < res.results.length) truncatedBy.add("max_blocks");
+      blocks = [...(blocks ?? []), ...kept];
+      cursor = res.has_more ? (res.next_cursor ?? undefined) : undefined;
+    } while (cursor);
+    if (!blocks) return undefined;
+
+    const nested = blocks.filter((b) => b.has_children && !NON_NESTED_BLOCK_TYPES.has(b.type));
+    if (nested.length > 0 && depth >= maxDepth) truncatedBy.add("max_depth");
+    if (depth >= maxDepth) return blocks;
+
+    await Promise.all(
+      nested.map(async (block) => {
+        // A synced block copy holds no content of its own; read the original's children.
+        const sourceId = block.type === "synced_block" ? (block.synced_block?.synced_from?.block_id ?? block.id) : block.id;
+        const children = await fetchLevel(sourceId, depth + 1);
+        if (children) block.children = children;
+      }),
+    );
+
+    return blocks;
+  }
+
+  const blocks = (await fetchLevel(blockId, 1)) ?? [];
+  return {
+    blocks,
+    block_count: blockCount,
+    truncated: truncatedBy.size > 0,
+    truncated_by: [...truncatedBy],
+  };
+}
+
+// ── Get page content as a nested, flattened block tree ──
+export async function getPageContent(
+  token: string,
+  pageId: string,
+  opts: BlockTreeOptions & { richText?: RichTextFormat } = {},
+) {
+  const tree = await getBlockTree(token, pageId, opts);
+  return { ...tree, blocks: tree.blocks.map((block) => flattenBlockTree(block, opts.richText)) };
+}
+
+// ── Get a page as Markdown: properties as front matter, body as GFM ──
+export async function getPageMarkdown(token: string, pageId: string, opts: BlockTreeOptions = {}) {
+  const [page, tree] = await Promise.all([getPage(token, pageId), getBlockTree(token, pageId, opts)]);
+
+  const frontMatter = renderFrontMatter({ id: page.id, url: page.url, ...page.properties });
+  const body = renderBlocks(tree.blocks);
+  const note = tree.truncated
+    ? `\n\n<!-- truncated by ${tree.truncated_by.join(", ")} after ${tree.block_count} blocks -->`
+    : "";
+
+  return `${frontMatter}\n\n${body}${note}\n`;
+}
+
+// ── Duplicate a page with its block tree ──
+// Blocks are recreated parent by parent so every new ID is known: each request's results
+// map to the source blocks in order, and children created inline (table rows, columns,
+// synced block content) are listed afterwards. Nothing is written unless the whole copy
+// fits the subrequest budget, so a page is never left half-duplicated.
+const DUPLICATE_REQUEST_BUDGET = 45;
+// Requests to re-upload one Notion-hosted file: download, create upload, send.
+const REUPLOAD_REQUESTS = 3;
+
+// Blocks the API can't create: child pages/databases are separate objects, the rest are read-only.
+const UNCOPYABLE_BLOCK_TYPES = new Set([
+  "child_page", "child_database", "unsupported", "link_preview", "transcription", "meeting_notes", "ai_block",
+]);
+const MEDIA_BLOCK_TYPES = new Set(["image", "file", "pdf", "video", "audio"]);
+
+interface CopyContext {
+  token: string;
+  idMap: Record<string, string>;
+}
+
+// Notion-hosted files come back as expiring URLs, which can't be written back; they're
+// downloaded and uploaded again. External files and emoji pass through.
+function isHostedFile(media: any): boolean {
+  return media?.type === "file" && typeof media.file?.url === "string";
+}
+
+async function copyMedia(token: string, media: any): Promise<any> {
+  if (!isHostedFile(media)) return media;
+  const { file, ...rest } = media;
+  const upload = await uploadFile(token, { url: file.url, filename: media.name });
+  return { ...rest, type: "file_upload", file_upload: { id: upload.id } };
+}
+
+// Read responses carry extra fields (plain_text, href, full mention objects); the
+// compact span round trip keeps only what a write accepts.
+function cleanRichText(richText: any[] | undefined): any[] {
+  return parseRichTextInput(toCompactSpans(richText));
+}
+
+function isSyncedCopy(block: any): boolean {
+  return block.type === "synced_block" && !!block.synced_block?.synced_from;
+}
+
+// Types whose children must be created in the same request as the block itself.
+function hasInlineChildren(block: any): boolean {
+  return INLINE_CHILDREN_TYPES.has(block.type) || (block.type === "synced_block" && !isSyncedCopy(block));
+}
+
+// Drops blocks that can't be copied (recording them) and the children a synced copy
+// borrows from its original, which the copy will reference instead.
+function pruneTree(blocks: any[], skipped: Array<{ id: string; type: string }>): any[] {
+  return blocks.flatMap((block) => {
+    if (UNCOPYABLE_BLOCK_TYPES.has(block.type)) {
+      skipped.push({ id: block.id, type: block.type });
+      return [];
+    }
+    const children = block.children && !isSyncedCopy(block) ? pruneTree(block.children, skipped) : undefined;
+    return [{ ...block, children }];
+  });
+}
+
+// One list request per level fetched (ignoring pagination of very long levels).
+function countTreeReads(blocks: any[]): number {
+  return 1 + blocks.reduce((n, block) => n + (block.children ? countTreeReads(block.children) : 0), 0);
+}
+
+function countBlockRequests(block: any): number {
+  const content = block[block.type];
+  const media = (isHostedFile(content) ? REUPLOAD_REQUESTS : 0) + (isHostedFile(content?.icon) ? REUPLOAD_REQUESTS : 0);
+  const children: any[] = block.children ?? [];
+  if (children.length === 0) return media;
+  if (!hasInlineChildren(block)) return media + countCopyRequests(children);
+  const inline = children.slice(0, MAX_BLOCKS_PER_REQUEST);
+  const rest = children.slice(MAX_BLOCKS_PER_REQUEST);
+  return media + 1 + inline.reduce((n, child) => n + countBlockRequests(child), 0) + (rest.length ? countCopyRequests(rest) : 0);
+}
+
+function countCopyRequests(blocks: any[]): number {
+  return Math.ceil(blocks.length / MAX_BLOCKS_PER_REQUEST) + blocks.reduce((n, block) => n + countBlockRequests(block), 0);
+}
+
+async function toCopyPayload(ctx: CopyContext, block: any): Promise<any> {
+  let content: any = { ...block[block.type] };
+  for (const key of ["rich_text", "caption"]) {
+    if (Array.isArray(content[key])) content[key] = cleanRichText(content[key]);
+  }
+  if (Array.isArray(content.cells)) content.cells = content.cells.map(cleanRichText);
+  if (MEDIA_BLOCK_TYPES.has(block.type)) content = await copyMedia(ctx.token, content);
+  if (content.icon) content.icon = await copyMedia(ctx.token, content.icon);
+  if (block.type === "synced_block") content = { synced_from: content.synced_from ?? null };
+
+  if (hasInlineChildren(block)) {
+    content.children = [];
+    for (const child of (block.children ?? []).slice(0, MAX_BLOCKS_PER_REQUEST)) {
+      content.children.push(await toCopyPayload(ctx, child));
+    }
+  }
+  return { object: "block", type: block.type, [block.type]: content };
+}
+
+async function copyBlocks(ctx: CopyContext, parentId: string, blocks: any[]) {
+  for (let i = 0; i < blocks.length; i += MAX_BLOCKS_PER_REQUEST) {
+    const chunk = blocks.slice(i, i + MAX_BLOCKS_PER_REQUEST);
+    const children = [];
+    for (const block of chunk) children.push(await toCopyPayload(ctx, block));
+    const res = await notionFetch(ctx.token, `/blocks/${parentId}/children`, {
+      method: "PATCH",
+      body: JSON.stringify({ children }),
+    });
+    for (let j = 0; j < chunk.length; j++) {
+      await mapCopiedBlock(ctx, chunk[j], res.results[j]);
+    }
+  }
+}
+
+async function mapCopiedBlock(ctx: CopyContext, source: any, created: any) {
+  ctx.idMap[source.id] = created.id;
+  const children: any[] = source.children ?? [];
+  if (children.length === 0) return;
+
+  if (!hasInlineChildren(source)) {
+    await copyBlocks(ctx, created.id, children);
+    return;
+  }
+  const { blocks: createdChildren } = await listBlockChildren(ctx.token, created.id);
+  const inline = children.slice(0, MAX_BLOCKS_PER_REQUEST);
+  for (let i = 0; i < inline.length; i++) {
+    await mapCopiedBlock(ctx, inline[i], createdChildren[i]);
+  }
+  if (children.length > inline.length) await copyBlocks(ctx, created.id, children.slice(MAX_BLOCKS_PER_REQUEST));
+}
+
+// Converts a property value as read into one that can be written.
+async function copyPropertyValue(token: string, prop: any): Promise<any> {
+  switch (prop.type) {
+    case "title":
+    case "rich_text":
+      return { [prop.type]: cleanRichText(prop[prop.type]) };
+    case "select":
+    case "status":
+      return { [prop.type]: prop[prop.type] ? { name: prop[prop.type].name } : null };
+    case "multi_select":
+      return { multi_select: prop.multi_select.map((o: any) => ({ name: o.name })) };
+    case "people":
+    case "relation":
+      return { [prop.type]: prop[prop.type].map((v: any) => ({ id: v.id })) };
+    case "files": {
+      const files = [];
+      for (const file of prop.files) files.push(await copyMedia(token, file));
+      return { files };
+    }
+    default:
+      return { [prop.type]: prop[prop.type] };
+  }
+}
+
+/**
+ * Copies a page's properties, icon, cover and full block tree under a new parent page or
+ * data source. Properties the target data source lacks (or has with another type) are
+ * skipped, as are blocks the API can't create. Returns the new page and an old → new
+ * block ID map.
+ */
+export async function duplicatePage(
+  token: string,
+  pageId: string,
+  target: PageParent,
+  opts: { title?: string; richText?: RichTextInput; cache?: NotionCache } = {},
+) {
+  const [source, tree] = await Promise.all([
+    notionFetch(token, `/pages/${pageId}`),
+    getBlockTree(token, pageId, { maxDepth: Infinity, maxBlocks: Infinity }),
+  ]);
+  if (tree.truncated) {
+    throw new Error(
+      `Page ${formatId(pageId)} is too large to duplicate in one call (reading its content hit the ${tree.truncated_by.join(", ")} limit).`,
+    );
+  }
+
+  const skippedBlocks: Array<{ id: string; type: string }> = [];
+  const blocks = pruneTree(tree.blocks, skippedBlocks);
+
+  // Target columns by name; a standalone page only has its title.
+  const targetTypes = target.dataSourceId
+    ? new Map((await getDatabaseSchema(token, target.dataSourceId, opts.cache)).properties.map((p) => [p.name, p.type]))
+    : new Map([["title", "title"]]);
+  const targetTitle = [...targetTypes].find(([, type]) => type === "title")?.[0] ?? "title";
+
+  const properties: Record<string, any> = {};
+  const skippedProperties: string[] = [];
+  let mediaUploads = [source.icon, source.cover].filter(isHostedFile).length;
+  for (const [name, prop] of Object.entries(source.properties ?? {}) as Array<[string, any]>) {
+    if (prop.type === "title") {
+      properties[targetTitle] = prop;
+    } else if (targetTypes.get(name) === prop.type && !isReadOnlyPropertyType(prop.type)) {
+      properties[name] = prop;
+      if (prop.type === "files") mediaUploads += prop.files.filter(isHostedFile).length;
+    } else {
+      skippedProperties.push(name);
+    }
+  }
+
+  // Reads so far (page, tree, target schema) plus the page create and the block writes.
+  const needed =
+    2 + countTreeReads(tree.blocks) + 1 + countCopyRequests(blocks) + mediaUploads * REUPLOAD_REQUESTS;
+  if (needed > DUPLICATE_REQUEST_BUDGET) {
+    throw new Error(
+      `Duplicating page ${formatId(pageId)} needs about ${needed} Notion requests, more than the ${DUPLICATE_REQUEST_BUDGET} one call can make. Nothing was created.`,
+    );
+  }
+
+  const payload: Record<string, any> = {};
+  for (const [name, prop] of Object.entries(properties)) payload[name] = await copyPropertyValue(token, prop);
+  if (opts.title !== undefined) payload[targetTitle] = { title: parseRichTextInput(opts.title, opts.richText) };
+
+  const page = await createPage(token, {
+    parent: target.dataSourceId ? { data_source_id: target.dataSourceId } : { page_id: target.pageId },
+    properties: payload,
+    icon: source.icon ? await copyMedia(token, source.icon) : undefined,
+    cover: source.cover ? await copyMedia(token, source.cover) : undefined,
+  });
+
+  const ctx: CopyContext = { token, idMap: {} };
+  await copyBlocks(ctx, page.id, blocks);
+
+  return {
+    ...page,
+    block_count: Object.keys(ctx.idMap).length,
+    id_map: ctx.idMap,
+    skipped_blocks: skippedBlocks,
+    skipped_properties: skippedProperties,
+  };
+}
+
+// Runs at most `limit` of the wrapped calls at once; the rest wait their turn in order.
+function createLimiter(limit: number) {
+  let active = 0;
+  const waiting: Array<() => void> = [];
+  return async <T>(fn: () => Promise<T>): Promise<T> => {
+    while (active >= limit) await new Promise<void>((resolve) => waiting.push(resolve));
+    active++;
+    try {
+      return await fn();
+    } finally {
+      active--;
+      waiting.shift()?.();
+    }
+  };
+}
+
+async function mapWithConcurrency<T>(items: T[], limit: number, fn: (item: T) => Promise<void>) {
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      await fn(items[next++]);
+    }
+  });
+  await Promise.all(workers);
 }
 
 // ── Helpers ──
 
-function flattenPage(page: any) {
+function flattenPage(page: any, format: RichTextFormat = "plain") {
   if (!page.properties) return { id: formatId(page.id), properties: {} };
 
   const props: Record<string, any> = {};
   for (const [key, val] of Object.entries(page.properties) as any[]) {
-    props[key] = extractPropertyValue(val);
+    props[key] = extractPropertyValue(val, format);
   }
 
   return {
@@ -338,12 +2155,12 @@ function flattenPage(page: any) {
   };
 }
 
-function extractPropertyValue(prop: any): any {
+function extractPropertyValue(prop: any, format: RichTextFormat = "plain"): any {
   switch (prop.type) {
     case "title":
-      return prop.title?.map((t: any) => t.plain_text).join("") ?? "";
+      return formatRichText(prop.title, format);
     case "rich_text":
-      return prop.rich_text?.map((t: any) => t.plain_text).join("") ?? "";
+      return formatRichText(prop.rich_text, format);
     case "number":
       return prop.number;
     case "select":
@@ -363,11 +2180,11 @@ function extractPropertyValue(prop: any): any {
     case "phone_number":
       return prop.phone_number;
     case "formula":
-      return extractPropertyValue(prop.formula);
+      return extractPropertyValue(prop.formula, format);
     case "relation":
       return prop.relation?.map((r: any) => r.id) ?? [];
     case "rollup":
-      return prop.rollup?.array?.map(extractPropertyValue) ?? prop.rollup;
+      return prop.rollup?.array?.map((item: any) => extractPropertyValue(item, format)) ?? prop.rollup;
     case "people":
       return prop.people?.map((p: any) => p.name ?? p.person?.email ?? p.id) ?? [];
     case "files":
@@ -387,13 +2204,13 @@ function extractPropertyValue(prop: any): any {
   }
 }
 
-function flattenBlock(block: any) {
+function flattenBlock(block: any, format: RichTextFormat = "plain") {
   const type = block.type;
   const content = block[type];
-  let text = "";
+  let text: any = "";
 
   if (content?.rich_text) {
-    text = content.rich_text.map((t: any) => t.plain_text).join("");
+    text = formatRichText(content.rich_text, format);
   } else if (content?.title) {
     text = content.title;
   }
@@ -409,6 +2226,21 @@ function flattenBlock(block: any) {
   };
 }
 
+// Per-item error shape for batch results, so callers can tell retriable failures apart.
+function describeError(err: unknown) {
+  if (err instanceof NotionApiError) {
+    return { error: err.message, code: err.code, retriable: err.retriable, ...(err.hint ? { hint: err.hint } : {}) };
+  }
+  return { error: err instanceof Error ? err.message : String(err) };
+}
+
+function flattenBlockTree(block: any, format: RichTextFormat = "plain"): any {
+  const flat = flattenBlock(block, format);
+  return block.children
+    ? { ...flat, children: block.children.map((child: any) => flattenBlockTree(child, format)) }
+    : flat;
+}
+
 export function normalizeId(idOrUrl: string): string {
   const urlMatch = idOrUrl.match(/(?:notion\.so|notion\.site)\/(?:.*[-/])?([a-f0-9]{32})/);
   if (urlMatch) return urlMatch[1];
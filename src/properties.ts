@@ -0,0 +1,187 @@
+// Conversion of flattened ("simple") property values — the shape get-page and
+// query-database return — into Notion property payloads, driven by the column types.
+import { parseRichTextInput, type RichTextInput } from "./rich-text";
+
+export interface PropertyType {
+  type: string;
+  options?: string[];
+}
+
+/** Resolves people given as user IDs, names or emails to Notion user IDs. */
+export type PeopleResolver = (values: string[]) => Promise<string[]>;
+
+// Keys of raw Notion property payloads, e.g. { "select": { "name": "Done" } }.
+const RAW_VALUE_KEYS = new Set([
+  "title", "rich_text", "number", "select", "multi_select", "status", "date", "checkbox", "url",
+  "email", "phone_number", "relation", "people", "files",
+]);
+
+const READ_ONLY_TYPES = new Set([
+  "formula", "rollup", "created_time", "created_by", "last_edited_time", "last_edited_by", "unique_id",
+  "verification", "button",
+]);
+
+/** True for property types Notion computes (formulas, rollups, timestamps…), which can't be written. */
+export function isReadOnlyPropertyType(type: string): boolean {
+  return READ_ONLY_TYPES.has(type);
+}
+
+/** True if the value is already a raw Notion property payload rather than a simple value. */
+export function isRawPropertyValue(value: unknown): boolean {
+  if (value === null || typeof value !== "object" || Array.isArray(value)) return false;
+  const keys = Object.keys(value).filter((k) => k !== "type" && k !== "id");
+  return keys.length === 1 && RAW_VALUE_KEYS.has(keys[0]);
+}
+
+const UUID = /^[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}$/i;
+
+export function isNotionId(value: string): boolean {
+  return UUID.test(value);
+}
+
+function asList(value: unknown): unknown[] {
+  if (value === null || value === undefined || value === "") return [];
+  if (Array.isArray(value)) return value;
+  if (typeof value === "string") return value.split(",").map((v) => v.trim()).filter(Boolean);
+  return [value];
+}
+
+// Names like "Doe, Jane" contain a comma, so a string is looked up whole before it's
+// read as a comma-separated list. An array is always taken as the list.
+async function resolvePeopleValue(value: unknown, resolvePeople: PeopleResolver): Promise<string[]> {
+  if (typeof value !== "string" || !value.includes(",")) return resolvePeople(asList(value).map(String));
+  try {
+    return await resolvePeople([value.trim()]);
+  } catch (err) {
+    return resolvePeople(asList(value).map(String)).catch(() => {
+      throw err;
+    });
+  }
+}
+
+function asDate(value: unknown): any {
+  if (value === null || value === "") return null;
+  if (typeof value === "object") return value;
+  const text = String(value).trim();
+  // ISO 8601 interval ("start/end") or an arrow between the two dates.
+  const range = text.split(/\s*(?:\/|→|->)\s*/);
+  if (range.length === 2) return { start: range[0], end: range[1] };
+  return { start: text };
+}
+
+function asCheckbox(value: unknown): boolean {
+  if (typeof value === "boolean") return value;
+  const text = String(value).trim().toLowerCase();
+  if (["true", "yes", "y", "1", "x", "checked"].includes(text)) return true;
+  if (["false", "no", "n", "0", "", "unchecked"].includes(text)) return false;
+  throw new Error(`expected true or false, got ${JSON.stringify(value)}`);
+}
+
+function asNumber(value: unknown): number | null {
+  if (value === null || value === "") return null;
+  const n = typeof value === "number" ? value : Number(String(value).replace(/,/g, ""));
+  if (!Number.isFinite(n)) throw new Error(`expected a number, got ${JSON.stringify(value)}`);
+  return n;
+}
+
+function checkOption(name: string, prop: PropertyType) {
+  if (prop.type === "status" && prop.options && !prop.options.includes(name)) {
+    throw new Error(`"${name}" is not a status option; valid options: ${prop.options.join(", ")}`);
+  }
+}
+
+/**
+ * Converts one simple value to a Notion property payload for a column of the given type.
+ * People and relations accept IDs; `normalizeRelation` turns page URLs into IDs.
+ */
+async function convertValue(
+  value: unknown,
+  prop: PropertyType,
+  resolvePeople: PeopleResolver,
+  normalizeRelation: (idOrUrl: string) => string,
+  richText: RichTextInput,
+): Promise<any> {
+  switch (prop.type) {
+    case "title":
+    case "rich_text":
+      return { [prop.type]: value === null ? [] : parseRichTextInput(typeof value === "number" ? String(value) : value, richText) };
+    case "number":
+      return { number: asNumber(value) };
+    case "select":
+    case "status": {
+      if (value === null || value === "") return { [prop.type]: null };
+      const name = String(value);
+      checkOption(name, prop);
+      return { [prop.type]: { name } };
+    }
+    case "multi_select":
+      return { multi_select: asList(value).map((name) => ({ name: String(name) })) };
+    case "date":
+      return { date: asDate(value) };
+    case "checkbox":
+      return { checkbox: asCheckbox(value) };
+    case "url":
+    case "email":
+    case "phone_number":
+      return { [prop.type]: value === "" || value === null ? null : String(value) };
+    case "relation":
+      return { relation: asList(value).map((v) => ({ id: normalizeRelation(String(v)) })) };
+    case "people": {
+      const ids = await resolvePeopleValue(value, resolvePeople);
+      return { people: ids.map((id) => ({ id })) };
+    }
+    case "files":
+      // Strings are external URLs, or file upload IDs returned by upload-file.
+      return {
+        files: asList(value).map((v: any) => {
+          if (typeof v === "object") return v;
+          if (isNotionId(String(v))) return { type: "file_upload", file_upload: { id: String(v) } };
+          return { name: String(v).split("/").pop() || String(v), external: { url: String(v) } };
+        }),
+      };
+    default:
+      if (READ_ONLY_TYPES.has(prop.type)) throw new Error(`${prop.type} properties are computed by Notion and can't be set`);
+      throw new Error(`setting ${prop.type} properties from a simple value isn't supported; pass the raw Notion payload`);
+  }
+}
+
+/**
+ * Builds a Notion properties payload from a mix of simple and raw values. Raw payloads
+ * pass through untouched; simple values are converted by column type. All problems are
+ * collected and reported together, naming the valid properties or options.
+ */
+export async function buildPropertyPayload(
+  values: Record<string, unknown>,
+  types: Record<string, PropertyType>,
+  resolvePeople: PeopleResolver,
+  normalizeRelation: (idOrUrl: string) => string,
+  richText: RichTextInput = "plain",
+): Promise<Record<string, any>> {
+  const payload: Record<string, any> = {};
+  const errors: string[] = [];
+
+  for (const [name, value] of Object.entries(values)) {
+    if (isRawPropertyValue(value)) {
+      payload[name] = value;
+      continue;
+    }
+    const prop = types[name];
+    if (!prop) {
+      errors.push(`Unknown property "${name}". Valid properties: ${Object.keys(types).sort().join(", ")}`);
+      continue;
+    }
+    try {
+      payload[name] = await convertValue(value, prop, resolvePeople, normalizeRelation, richText);
+    } catch (err) {
+      errors.push(`Property "${name}" (${prop.type}): ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  if (errors.length > 0) throw new Error(errors.join("\n"));
+  return payload;
+}
+
+/** True if any value needs the column types to be converted. */
+export function hasSimpleValues(values: Record<string, unknown>): boolean {
+  return Object.values(values).some((value) => !isRawPropertyValue(value));
+}
@@ -0,0 +1,148 @@
+import { markdownToRichText, plainRichText, richTextToMarkdown } from "./markdown";
+
+// How rich text (title/rich_text properties and block text) is returned by read tools:
+//   plain    — concatenated plain_text (formatting, links and mentions are dropped)
+//   markdown — inline Markdown: **bold**, *italic*, `code`, ~~strike~~, links, page mentions
+//   spans    — compact annotated spans that round-trip exactly, mentions included
+export type RichTextFormat = "plain" | "markdown" | "spans";
+
+// How strings given to write tools are read, mirroring the read formats: plain strings are
+// literal text, so a value read as "plain" writes back unchanged; "markdown" parses inline
+// Markdown, for values read as "markdown". Span and native arrays are unambiguous either way.
+export type RichTextInput = "plain" | "markdown";
+
+export interface CompactSpan {
+  text?: string;
+  bold?: true;
+  italic?: true;
+  strikethrough?: true;
+  underline?: true;
+  code?: true;
+  color?: string;
+  link?: string;
+  mention?: { type: string; id?: string; start?: string; end?: string | null; url?: string };
+  equation?: string;
+}
+
+const ANNOTATION_KEYS = ["bold", "italic", "strikethrough", "underline", "code"] as const;
+
+function compactMention(mention: any): CompactSpan["mention"] {
+  switch (mention.type) {
+    case "user":
+      return { type: "user", id: mention.user.id };
+    case "page":
+      return { type: "page", id: mention.page.id };
+    case "database":
+      return { type: "database", id: mention.database.id };
+    case "date":
+      return { type: "date", start: mention.date.start, end: mention.date.end ?? null };
+    case "link_preview":
+      return { type: "link_preview", url: mention.link_preview.url };
+    default:
+      return { type: mention.type };
+  }
+}
+
+export function toCompactSpans(richText: any[] | undefined): CompactSpan[] {
+  return (richText ?? []).map((span: any) => {
+    if (span.type === "equation") return { equation: span.equation.expression };
+
+    const out: CompactSpan = { text: span.plain_text ?? span.text?.content ?? "" };
+    for (const key of ANNOTATION_KEYS) {
+      if (span.annotations?.[key]) out[key] = true;
+    }
+    if (span.annotations?.color && span.annotations.color !== "default") out.color = span.annotations.color;
+    if (span.type === "mention") out.mention = compactMention(span.mention);
+    else if (span.text?.link?.url) out.link = span.text.link.url;
+    return out;
+  });
+}
+
+export function formatRichText(richText: any[] | undefined, format: RichTextFormat = "plain"): any {
+  if (format === "markdown") return richTextToMarkdown(richText);
+  if (format === "spans") return toCompactSpans(richText);
+  return richText?.map((t: any) => t.plain_text).join("") ?? "";
+}
+
+function fromCompactMention(mention: NonNullable<CompactSpan["mention"]>): any {
+  switch (mention.type) {
+    case "date":
+      return { date: { start: mention.start, ...(mention.end ? { end: mention.end } : {}) } };
+    case "link_preview":
+      return { link_preview: { url: mention.url } };
+    default:
+      return { [mention.type]: { id: mention.id } };
+  }
+}
+
+function fromCompactSpan(span: CompactSpan): any {
+  const annotations: Record<string, any> = {};
+  for (const key of ANNOTATION_KEYS) {
+    if (span[key]) annotations[key] = true;
+  }
+  if (span.color) annotations.color = span.color;
+  const withAnnotations = Object.keys(annotations).length > 0 ? { annotations } : {};
+
+  if (span.equation !== undefined) return { type: "equation", equation: { expression: span.equation }, ...withAnnotations };
+  if (span.mention) return { type: "mention", mention: fromCompactMention(span.mention), ...withAnnotations };
+  return {
+    type: "text",
+    text: { content: span.text ?? "", ...(span.link ? { link: { url: span.link } } : {}) },
+    ...withAnnotations,
+  };
+}
+
+// Compact spans carry text/equation as strings and mentions as { type, id }; native
+// Notion objects nest them ({ text: { content } }, { mention: { user: { id } } }).
+function isCompactSpan(value: any): boolean {
+  if (value === null || typeof value !== "object" || value.type !== undefined) return false;
+  if (typeof value.text === "string" || typeof value.equation === "string") return true;
+  return typeof value.mention?.type === "string" && value.mention[value.mention.type] === undefined;
+}
+
+/**
+ * Accepts rich text in any of the forms the read tools return — a plain or Markdown string,
+ * compact spans, or native Notion rich text objects — and returns Notion rich text.
+ */
+export function parseRichTextInput(value: unknown, input: RichTextInput = "plain"): any[] {
+  if (typeof value === "string") {
+    if (input === "markdown") return markdownToRichText(value);
+    return value === "" ? [] : plainRichText(value);
+  }
+  if (!Array.isArray(value)) return value as any[];
+  return value.map((span) => (isCompactSpan(span) ? fromCompactSpan(span) : span));
+}
+
+const RICH_TEXT_PROPERTY_TYPES = ["title", "rich_text"];
+
+/** Converts string/compact-span rich text inside raw Notion property payloads. */
+export function normalizePropertyRichText(properties: Record<string, any>, input: RichTextInput = "plain"): Record<string, any> {
+  const out: Record<string, any> = {};
+  for (const [name, value] of Object.entries(properties)) {
+    const key = value && typeof value === "object" ? RICH_TEXT_PROPERTY_TYPES.find((k) => k in value) : undefined;
+    out[name] = key ? { ...value, [key]: parseRichTextInput(value[key], input) } : value;
+  }
+  return out;
+}
+
+/** Converts string/compact-span rich text inside block payloads (rich_text and caption), recursively. */
+export function normalizeBlockRichText(block: any, input: RichTextInput = "plain"): any {
+  if (!block || typeof block !== "object") return block;
+  // Update payloads omit "type" and are keyed by it directly: { paragraph: { rich_text } }.
+  const type = block.type ?? Object.keys(block).find((k) => k !== "children" && block[k] && typeof block[k] === "object");
+  const content = type ? block[type] : undefined;
+  if (!content || typeof content !== "object") return block;
+
+  const next = { ...content };
+  for (const key of ["rich_text", "caption"]) {
+    if (key in next) next[key] = parseRichTextInput(next[key], input);
+  }
+  if (Array.isArray(next.children)) next.children = next.children.map((child: any) => normalizeBlockRichText(child, input));
+  if (Array.isArray(next.cells)) next.cells = next.cells.map((cell: unknown) => parseRichTextInput(cell, input));
+
+  return {
+    ...block,
+    [type]: next,
+    ...(Array.isArray(block.children) ? { children: block.children.map((child: any) => normalizeBlockRichText(child, input)) } : {}),
+  };
+}
@@ -0,0 +1,67 @@
+// OAuth scopes a grant can hold. Every tool needs exactly one; the user picks which of
+// the client's requested scopes to approve in the approval dialog.
+
+export const SCOPES = {
+  "notion.read": "Read pages, databases, comments and users, and watch them for changes",
+  "notion.write": "Create and edit pages, database items, page content and comments",
+  "notion.schema": "Change database structure and delete pages, blocks and databases",
+} as const;
+
+export type Scope = keyof typeof SCOPES;
+
+export const ALL_SCOPES = Object.keys(SCOPES) as Scope[];
+
+const TOOL_SCOPES: Record<string, Scope> = {
+  "list-databases": "notion.read",
+  search: "notion.read",
+  "get-database-schema": "notion.read",
+  "query-database": "notion.read",
+  "export-database": "notion.read",
+  "get-page": "notion.read",
+  "get-page-content": "notion.read",
+  "get-page-markdown": "notion.read",
+  "list-comments": "notion.read",
+  "list-users": "notion.read",
+  "get-self": "notion.read",
+  "list-changes": "notion.read",
+  "get-recent-changes": "notion.read",
+  "watch-database": "notion.read",
+  "watch-page": "notion.read",
+  "list-watches": "notion.read",
+  unwatch: "notion.read",
+
+  "import-csv": "notion.write",
+  "add-page-content": "notion.write",
+  "upload-file": "notion.write",
+  "update-block": "notion.write",
+  "add-comment": "notion.write",
+  "create-database-item": "notion.write",
+  "update-page-properties": "notion.write",
+  "duplicate-page": "notion.write",
+  "batch-update-pages": "notion.write",
+  "create-page": "notion.write",
+  "undo-change": "notion.write",
+
+  "delete-block": "notion.schema",
+  "delete-page": "notion.schema",
+  "update-database": "notion.schema",
+  "create-database": "notion.schema",
+  "delete-database": "notion.schema",
+};
+
+export function isScope(value: unknown): value is Scope {
+  return typeof value === "string" && value in SCOPES;
+}
+
+/** The scope a tool needs. Every tool must be listed, so a new one can't slip in unscoped. */
+export function toolScope(tool: string): Scope {
+  const scope = TOOL_SCOPES[tool];
+  if (!scope) throw new Error(`Tool "${tool}" has no scope; add it to TOOL_SCOPES`);
+  return scope;
+}
+
+/** The known scopes in an OAuth request; a client that asks for none is offered all of them. */
+export function requestedScopes(scope: readonly string[] | undefined): Scope[] {
+  const known = ALL_SCOPES.filter((s) => scope?.includes(s));
+  return known.length > 0 ? known : ALL_SCOPES;
+}
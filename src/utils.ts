@@ -1,8 +1,19 @@
+import { ReauthorizationRequiredError, type Allowlist, type NotionCredentials } from "./notion";
+import type { Scope } from "./scopes";
+
 export type Props = {
   accessToken: string;
+  /** Absent on grants made before Notion issued refresh tokens; those can't be refreshed. */
+  refreshToken?: string;
+  /** When accessToken expires (epoch ms), if Notion said. */
+  expiresAt?: number;
   workspaceId: string;
   workspaceName: string;
   botId: string;
+  /** Approved scopes. Absent on grants made before scopes existed, which have full access. */
+  scopes?: Scope[];
+  /** Data sources and pages chosen at consent; absent when the grant covers everything shared with the integration. */
+  allowlist?: Allowlist;
 };
 
 /**
@@ -68,9 +79,113 @@ export async function fetchNotionToken(opts: {
   return [data, null];
 }
 
+/** The credential fields of a token response, as stored in Props. */
+export function notionCredentials(data: NotionTokenResponse, previous?: NotionCredentials): NotionCredentials {
+  return {
+    accessToken: data.access_token,
+    // Notion may keep the refresh token unchanged and omit it from a refresh response.
+    refreshToken: data.refresh_token ?? previous?.refreshToken,
+    expiresAt: data.expires_in ? Date.now() + data.expires_in * 1000 : undefined,
+  };
+}
+
+/**
+ * Trades a Notion refresh token for new credentials. A rejected refresh token means the
+ * user revoked access (or it was already used), so only re-authorizing can help.
+ */
+export async function refreshNotionToken(opts: {
+  clientId: string;
+  clientSecret: string;
+  credentials: NotionCredentials;
+}): Promise<NotionCredentials> {
+  const { clientId, clientSecret, credentials } = opts;
+  if (!credentials.refreshToken) throw new ReauthorizationRequiredError();
+
+  const resp = await fetch("https://api.notion.com/v1/oauth/token", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Basic ${btoa(`${clientId}:${clientSecret}`)}`,
+      Accept: "application/json",
+    },
+    body: JSON.stringify({
+      grant_type: "refresh_token",
+      refresh_token: credentials.refreshToken,
+    }),
+  });
+
+  if (resp.status === 400 || resp.status === 401) {
+    console.error("Notion token refresh rejected:", await resp.text());
+    throw new ReauthorizationRequiredError();
+  }
+  if (!resp.ok) {
+    throw new Error(`Refreshing the Notion access token failed with HTTP ${resp.status}. Retry shortly.`);
+  }
+
+  const data = (await resp.json()) as NotionTokenResponse;
+  if (!data.access_token) throw new Error("Missing access_token in Notion refresh response");
+  return notionCredentials(data, credentials);
+}
+
+// ── Refreshed credentials handoff ──
+// A Notion refresh made inside a session can't update the grant directly: props are
+// stored encrypted with it by the OAuth provider. The new credentials are parked in KV
+// under the grant's refresh token instead, where new sessions pick them up and the
+// provider's tokenExchangeCallback folds them into the grant on the client's next refresh.
+
+/** Long enough to outlive any access token issued from the grant before the refresh. */
+const REFRESHED_CREDENTIALS_TTL_SECONDS = 30 * 24 * 60 * 60;
+/** The grant is refreshed early when its Notion token would expire within this window. */
+const GRANT_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+async function refreshedKey(refreshToken: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(refreshToken));
+  const hex = Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+  return `notion:refreshed:${hex}`;
+}
+
+export async function loadRefreshedCredentials(kv: KVNamespace, grantRefreshToken: string): Promise<NotionCredentials | null> {
+  return kv.get<NotionCredentials>(await refreshedKey(grantRefreshToken), "json");
+}
+
+export async function saveRefreshedCredentials(kv: KVNamespace, grantRefreshToken: string, credentials: NotionCredentials) {
+  await kv.put(await refreshedKey(grantRefreshToken), JSON.stringify(credentials), {
+    expirationTtl: REFRESHED_CREDENTIALS_TTL_SECONDS,
+  });
+}
+
+/**
+ * New grant props for an MCP client's token refresh: credentials a session already
+ * refreshed, or fresh ones when the Notion token is about to expire. Undefined keeps the
+ * grant as is; a revoked Notion token is left for the next tool call to report.
+ */
+export async function refreshGrantProps(env: Env, props: Props): Promise<Props | undefined> {
+  if (!props.refreshToken) return undefined;
+  const stored = await loadRefreshedCredentials(env.OAUTH_KV, props.refreshToken);
+  let credentials: NotionCredentials = stored ?? props;
+
+  if (credentials.expiresAt !== undefined && credentials.expiresAt - GRANT_REFRESH_MARGIN_MS < Date.now()) {
+    try {
+      credentials = await refreshNotionToken({
+        clientId: env.NOTION_OAUTH_CLIENT_ID,
+        clientSecret: env.NOTION_OAUTH_CLIENT_SECRET,
+        credentials,
+      });
+      await saveRefreshedCredentials(env.OAUTH_KV, props.refreshToken, credentials);
+    } catch (error) {
+      console.error("Notion token refresh during grant refresh failed:", error);
+    }
+  }
+
+  return credentials.accessToken === props.accessToken ? undefined : { ...props, ...credentials };
+}
+
 export interface NotionTokenResponse {
   access_token: string;
   token_type: string;
+  refresh_token?: string;
+  /** Lifetime of access_token in seconds, when it expires. */
+  expires_in?: number;
   bot_id: string;
   workspace_id: string;
   workspace_name: string | null;
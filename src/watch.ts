@@ -0,0 +1,221 @@
+import { listRowIds, NotionApiError, snapshotPage, snapshotRows, type NotionCache } from "./notion";
+
+// Watches on databases and pages: their registry and last-seen snapshots live in the
+// NotionMCP Durable Object's SQLite storage, and each poll is diffed against them.
+
+/** Largest database a watch will snapshot; also caps each poll's reads. */
+const WATCH_MAX_ROWS = 2000;
+/** Every Nth poll lists all row IDs to notice removed rows, which edit filters can't see. */
+const REMOVAL_SWEEP_EVERY = 10;
+/** last_edited_time is rounded to the minute, so each poll re-reads the previous minute. */
+const EDIT_TIME_SLACK_MS = 60_000;
+
+export type WatchKind = "data_source" | "page";
+
+export interface Watch {
+  id: string;
+  kind: WatchKind;
+  target_id: string;
+  title: string;
+  uri: string;
+  interval_seconds: number;
+  schedule_id: string;
+  polls: number;
+  /** ISO time the last poll started; the next one asks Notion for edits since then. */
+  polled_at: string;
+  /** Last time a client connection was open to receive notifications (ms). */
+  seen_at: number;
+  /** JSON of the most recent non-empty diff. */
+  last_change: string | null;
+}
+
+export interface SnapshotRow {
+  id: string;
+  title: string;
+  last_edited_time: string;
+  properties: Record<string, any>;
+}
+
+export interface WatchDiff {
+  added: Array<{ id: string; title: string }>;
+  changed: Array<{ id: string; title: string; properties: string[] }>;
+  removed: Array<{ id: string; title: string }>;
+}
+
+export function createWatchStore(sql: SqlStorage) {
+  sql.exec(`CREATE TABLE IF NOT EXISTS notion_watches (
+    id TEXT PRIMARY KEY,
+    kind TEXT NOT NULL,
+    target_id TEXT NOT NULL,
+    title TEXT NOT NULL,
+    uri TEXT NOT NULL,
+    interval_seconds INTEGER NOT NULL,
+    schedule_id TEXT NOT NULL,
+    polls INTEGER NOT NULL DEFAULT 0,
+    polled_at TEXT NOT NULL,
+    seen_at INTEGER NOT NULL,
+    last_change TEXT
+  )`);
+  sql.exec(`CREATE TABLE IF NOT EXISTS notion_watch_rows (
+    watch_id TEXT NOT NULL,
+    row_id TEXT NOT NULL,
+    title TEXT NOT NULL,
+    last_edited_time TEXT NOT NULL,
+    properties TEXT NOT NULL,
+    PRIMARY KEY (watch_id, row_id)
+  )`);
+
+  return {
+    list(): Watch[] {
+      return sql.exec<any>("SELECT * FROM notion_watches ORDER BY id").toArray() as Watch[];
+    },
+
+    get(id: string): Watch | undefined {
+      return sql.exec<any>("SELECT * FROM notion_watches WHERE id = ?", id).toArray()[0] as Watch | undefined;
+    },
+
+    insert(watch: Watch) {
+      sql.exec(
+        "INSERT INTO notion_watches (id, kind, target_id, title, uri, interval_seconds, schedule_id, polls, polled_at, seen_at, last_change) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)",
+        watch.id, watch.kind, watch.target_id, watch.title, watch.uri, watch.interval_seconds, watch.schedule_id,
+        watch.polls, watch.polled_at, watch.seen_at, watch.last_change,
+      );
+    },
+
+    update(id: string, fields: Partial<Pick<Watch, "polls" | "polled_at" | "seen_at" | "last_change">>) {
+      for (const [key, value] of Object.entries(fields)) {
+        sql.exec(`UPDATE notion_watches SET ${key} = ? WHERE id = ?`, value, id);
+      }
+    },
+
+    delete(id: string) {
+      sql.exec("DELETE FROM notion_watch_rows WHERE watch_id = ?", id);
+      sql.exec("DELETE FROM notion_watches WHERE id = ?", id);
+    },
+
+    snapshot(id: string): Map<string, SnapshotRow> {
+      const rows = sql.exec<any>("SELECT row_id, title, last_edited_time, properties FROM notion_watch_rows WHERE watch_id = ?", id).toArray();
+      return new Map(rows.map((r) => [
+        r.row_id,
+        { id: r.row_id, title: r.title, last_edited_time: r.last_edited_time, properties: JSON.parse(r.properties) },
+      ]));
+    },
+
+    putRows(id: string, rows: SnapshotRow[]) {
+      for (const row of rows) {
+        sql.exec(
+          "INSERT OR REPLACE INTO notion_watch_rows (watch_id, row_id, title, last_edited_time, properties) VALUES (?, ?, ?, ?, ?)",
+          id, row.id, row.title, row.last_edited_time, JSON.stringify(row.properties),
+        );
+      }
+    },
+
+    deleteRows(id: string, rowIds: string[]) {
+      for (const rowId of rowIds) {
+        sql.exec("DELETE FROM notion_watch_rows WHERE watch_id = ? AND row_id = ?", id, rowId);
+      }
+    },
+  };
+}
+
+export type WatchStore = ReturnType<typeof createWatchStore>;
+
+/**
+ * Compares rows fetched since the last poll with the snapshot. Rows edited without a
+ * property change (e.g. body edits) are reported as changed with no property names.
+ * `presentIds`, when known, is the full set of current rows, so missing ones count as removed.
+ */
+export function diffRows(snapshot: Map<string, SnapshotRow>, rows: SnapshotRow[], presentIds?: Set<string>): WatchDiff {
+  const diff: WatchDiff = { added: [], changed: [], removed: [] };
+
+  for (const row of rows) {
+    const before = snapshot.get(row.id);
+    if (!before) {
+      diff.added.push({ id: row.id, title: row.title });
+      continue;
+    }
+    const names = new Set([...Object.keys(before.properties), ...Object.keys(row.properties)]);
+    const properties = [...names].filter((n) => JSON.stringify(before.properties[n]) !== JSON.stringify(row.properties[n]));
+    if (properties.length > 0 || before.last_edited_time !== row.last_edited_time) {
+      diff.changed.push({ id: row.id, title: row.title, properties });
+    }
+  }
+
+  if (presentIds) {
+    for (const before of snapshot.values()) {
+      if (!presentIds.has(before.id)) diff.removed.push({ id: before.id, title: before.title });
+    }
+  }
+  return diff;
+}
+
+export function isEmptyDiff(diff: WatchDiff): boolean {
+  return diff.added.length === 0 && diff.changed.length === 0 && diff.removed.length === 0;
+}
+
+export function summarizeDiff(diff: WatchDiff): string {
+  return `${diff.added.length} added, ${diff.changed.length} changed, ${diff.removed.length} removed`;
+}
+
+/** Reads the current state of a watch target: every row of a data source, or the page itself. */
+export async function snapshotTarget(token: string, kind: WatchKind, targetId: string, cache?: NotionCache) {
+  if (kind === "page") {
+    const row = await snapshotPage(token, targetId);
+    return { title: row.title, rows: [row] };
+  }
+  const { title, rows, truncated } = await snapshotRows(token, targetId, undefined, WATCH_MAX_ROWS, cache);
+  if (truncated) {
+    throw new Error(`This database has more than ${WATCH_MAX_ROWS} rows, which is too many to watch.`);
+  }
+  return { title, rows };
+}
+
+/**
+ * Polls a watch target, diffs it against the stored snapshot and saves the new state.
+ * `gone` is set when the target itself was deleted or lost its sharing, which ends the watch.
+ */
+export async function pollTarget(
+  token: string,
+  store: WatchStore,
+  watch: Watch,
+  cache?: NotionCache,
+): Promise<{ diff: WatchDiff; gone: boolean }> {
+  const startedAt = new Date().toISOString();
+  const snapshot = store.snapshot(watch.id);
+  let rows: SnapshotRow[];
+  let presentIds: Set<string> | undefined;
+
+  try {
+    if (watch.kind === "page") {
+      rows = [await snapshotPage(token, watch.target_id)];
+      presentIds = new Set([watch.target_id]);
+    } else {
+      const since = new Date(Date.parse(watch.polled_at) - EDIT_TIME_SLACK_MS).toISOString();
+      const edited = await snapshotRows(
+        token,
+        watch.target_id,
+        { timestamp: "last_edited_time", last_edited_time: { on_or_after: since } },
+        WATCH_MAX_ROWS,
+        cache,
+      );
+      rows = edited.rows;
+      if ((watch.polls + 1) % REMOVAL_SWEEP_EVERY === 0) {
+        const sweep = await listRowIds(token, watch.target_id, WATCH_MAX_ROWS);
+        if (!sweep.truncated) presentIds = sweep.ids;
+      }
+    }
+  } catch (err) {
+    if (err instanceof NotionApiError && (err.status === 404 || err.status === 403)) {
+      const diff = { added: [], changed: [], removed: [{ id: watch.target_id, title: watch.title }] };
+      return { diff, gone: true };
+    }
+    throw err;
+  }
+
+  const diff = diffRows(snapshot, rows, presentIds);
+  const touched = new Set([...diff.added, ...diff.changed].map((r) => r.id));
+  store.putRows(watch.id, rows.filter((r) => touched.has(r.id)));
+  store.deleteRows(watch.id, diff.removed.map((r) => r.id));
+  store.update(watch.id, { polls: watch.polls + 1, polled_at: startedAt });
+  return { diff, gone: false };
+}
@@ -0,0 +1,13 @@
+// Checks the X-Notion-Signature header on webhook events. Kept apart from webhooks.ts,
+// which needs the Workers runtime, so test-webhooks.ts can run it against fixtures in Node.
+
+// The signature is "sha256=" + hex HMAC-SHA256 of the raw body, keyed with the
+// verification token. crypto.subtle.verify compares in constant time.
+export async function verifySignature(secret: string, body: string, signature: string): Promise<boolean> {
+  const hex = signature.startsWith("sha256=") ? signature.slice("sha256=".length) : "";
+  if (!/^[0-9a-f]{64}$/i.test(hex)) return false;
+  const mac = new Uint8Array(hex.match(/../g)!.map((byte) => parseInt(byte, 16)));
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["verify"]);
+  return crypto.subtle.verify("HMAC", key, mac, encoder.encode(body));
+}
@@ -0,0 +1,188 @@
+import { DurableObject } from "cloudflare:workers";
+import type { ParentRefType } from "./notion";
+import { verifySignature } from "./webhook-signature";
+
+// Notion webhook ingestion. Notion POSTs events to /webhooks/notion; each is checked
+// against the X-Notion-Signature HMAC and stored in the NotionWebhooks Durable Object
+// for its workspace, where get-recent-changes reads them back by cursor.
+
+/** Events older than this are pruned, as are the oldest beyond MAX_STORED_EVENTS. */
+const EVENT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_STORED_EVENTS = 5000;
+
+/** Event type prefixes kept; others (e.g. file uploads) are acknowledged and dropped. */
+const STORED_EVENT_PREFIXES = ["page.", "data_source.", "database.", "comment."];
+
+/** Notion's tokens look like "secret_…"; anything else isn't echoed into the logs. */
+const VERIFICATION_TOKEN = /^[A-Za-z0-9_-]{1,128}$/;
+
+export interface WebhookEvent {
+  /** Position in the workspace's event log; pass it back as a cursor. */
+  cursor: string;
+  id: string;
+  type: string;
+  timestamp: string;
+  entity: { id: string; type: string };
+  authors: Array<{ id: string; type: string }>;
+  data: Record<string, any>;
+}
+
+export interface RecentChangesOptions {
+  /** Cursor of the last event already seen; omit for the most recent events. */
+  cursor?: string;
+  types?: string[];
+  limit?: number;
+}
+
+export interface RecentChanges {
+  events: WebhookEvent[];
+  has_more: boolean;
+  next_cursor: string;
+}
+
+/** One instance per workspace, addressed with idFromName(workspaceId). */
+export class NotionWebhooks extends DurableObject<Env> {
+  private sql: SqlStorage;
+
+  constructor(ctx: DurableObjectState, env: Env) {
+    super(ctx, env);
+    this.sql = ctx.storage.sql;
+    this.sql.exec(`CREATE TABLE IF NOT EXISTS webhook_events (
+      seq INTEGER PRIMARY KEY AUTOINCREMENT,
+      id TEXT NOT NULL UNIQUE,
+      type TEXT NOT NULL,
+      timestamp TEXT NOT NULL,
+      entity TEXT NOT NULL,
+      authors TEXT NOT NULL,
+      data TEXT NOT NULL,
+      received_at INTEGER NOT NULL
+    )`);
+  }
+
+  /** Stores an event; Notion redelivers on failure, so a repeated event ID is ignored. */
+  record(event: any) {
+    const now = Date.now();
+    this.sql.exec(
+      "INSERT OR IGNORE INTO webhook_events (id, type, timestamp, entity, authors, data, received_at) VALUES (?, ?, ?, ?, ?, ?, ?)",
+      event.id,
+      event.type,
+      event.timestamp,
+      JSON.stringify(event.entity ?? {}),
+      JSON.stringify(event.authors ?? []),
+      JSON.stringify(event.data ?? {}),
+      now,
+    );
+    this.sql.exec("DELETE FROM webhook_events WHERE received_at < ?", now - EVENT_RETENTION_MS);
+    this.sql.exec(
+      "DELETE FROM webhook_events WHERE seq <= (SELECT MAX(seq) FROM webhook_events) - ?",
+      MAX_STORED_EVENTS,
+    );
+  }
+
+  /**
+   * Events after the cursor, oldest first. Without a cursor, the latest `limit` events.
+   * next_cursor is always set (to the input cursor when nothing new arrived) so callers
+   * can keep polling from it.
+   */
+  since(opts: RecentChangesOptions = {}) {
+    const limit = Math.min(Math.max(opts.limit ?? 50, 1), 200);
+    const types = opts.types?.length ? opts.types : undefined;
+    const typeClause = types ? ` AND type IN (${types.map(() => "?").join(", ")})` : "";
+    const typeArgs = types ?? [];
+
+    let rows: any[];
+    if (opts.cursor !== undefined) {
+      const after = Number(opts.cursor);
+      if (!Number.isInteger(after) || after < 0) throw new Error(`Invalid cursor "${opts.cursor}".`);
+      rows = this.sql
+        .exec<any>(`SELECT * FROM webhook_events WHERE seq > ?${typeClause} ORDER BY seq LIMIT ?`, after, ...typeArgs, limit + 1)
+        .toArray();
+    } else {
+      rows = this.sql
+        .exec<any>(`SELECT * FROM webhook_events WHERE 1 = 1${typeClause} ORDER BY seq DESC LIMIT ?`, ...typeArgs, limit)
+        .toArray()
+        .reverse();
+    }
+
+    const hasMore = rows.length > limit;
+    const events: WebhookEvent[] = rows.slice(0, limit).map((r) => ({
+      cursor: String(r.seq),
+      id: r.id,
+      type: r.type,
+      timestamp: r.timestamp,
+      entity: JSON.parse(r.entity),
+      authors: JSON.parse(r.authors),
+      data: JSON.parse(r.data),
+    }));
+    const latest = this.sql.exec<{ seq: number | null }>("SELECT MAX(seq) AS seq FROM webhook_events").one().seq ?? 0;
+    const nextCursor = events[events.length - 1]?.cursor ?? (opts.cursor ?? String(latest));
+    return { events, has_more: hasMore, next_cursor: nextCursor };
+  }
+}
+
+/**
+ * Handles POST /webhooks/notion. The first request from a new subscription carries only
+ * a verification_token: it is logged so it can be pasted into Notion's webhook settings
+ * and stored as the NOTION_WEBHOOK_VERIFICATION_TOKEN secret, which signs every event.
+ * Anyone can POST here, so the token is only logged while no secret is configured yet
+ * (unset it to set up a new subscription), and only if it looks like one.
+ */
+export async function handleNotionWebhook(request: Request, env: Env): Promise<Response> {
+  if (request.method !== "POST") return new Response("Method not allowed", { status: 405, headers: { Allow: "POST" } });
+
+  const body = await request.text();
+  let payload: any;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return new Response("Invalid JSON", { status: 400 });
+  }
+
+  if (typeof payload.verification_token === "string" && payload.type === undefined) {
+    if (!env.NOTION_WEBHOOK_VERIFICATION_TOKEN && VERIFICATION_TOKEN.test(payload.verification_token)) {
+      console.log(`Notion webhook verification token: ${payload.verification_token}`);
+    }
+    return new Response(null, { status: 200 });
+  }
+
+  if (!env.NOTION_WEBHOOK_VERIFICATION_TOKEN) {
+    return new Response("Webhook verification token is not configured", { status: 503 });
+  }
+  const signature = request.headers.get("X-Notion-Signature");
+  if (!signature || !(await verifySignature(env.NOTION_WEBHOOK_VERIFICATION_TOKEN, body, signature))) {
+    return new Response("Invalid signature", { status: 401 });
+  }
+
+  if (typeof payload.workspace_id !== "string" || typeof payload.id !== "string" || typeof payload.type !== "string") {
+    return new Response("Not a Notion event", { status: 400 });
+  }
+  if (STORED_EVENT_PREFIXES.some((prefix) => payload.type.startsWith(prefix))) {
+    await webhookStore(env, payload.workspace_id).record(payload);
+  }
+  return new Response(null, { status: 200 });
+}
+
+/** The page, data source or database an event is about, for allowlist checks. */
+export function eventTarget(event: WebhookEvent): { type: ParentRefType; id: string } | undefined {
+  switch (event.entity.type) {
+    case "page":
+      return { type: "page_id", id: event.entity.id };
+    case "data_source":
+      return { type: "data_source_id", id: event.entity.id };
+    case "database":
+      return { type: "database_id", id: event.entity.id };
+    case "comment":
+      return event.data.page_id ? { type: "page_id", id: event.data.page_id } : undefined;
+    default:
+      return undefined;
+  }
+}
+
+/** Reads a workspace's events. The RPC stub's inferred type is too deep to check, hence the cast. */
+export async function recentChanges(env: Env, workspaceId: string, opts: RecentChangesOptions): Promise<RecentChanges> {
+  return (await webhookStore(env, workspaceId).since(opts)) as unknown as RecentChanges;
+}
+
+export function webhookStore(env: Env, workspaceId: string) {
+  return env.NOTION_WEBHOOKS.get(env.NOTION_WEBHOOKS.idFromName(workspaceId));
+}
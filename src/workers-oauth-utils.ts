@@ -110,6 +110,20 @@ export async function createOAuthState(
   return { stateToken };
 }
 
+/** Holds a grant between the Notion callback and the resource picker's submission. */
+export async function storePendingGrant(grant: unknown, kv: KVNamespace, ttl = 600): Promise<string> {
+  const key = crypto.randomUUID();
+  await kv.put(`oauth:pending:${key}`, JSON.stringify(grant), { expirationTtl: ttl });
+  return key;
+}
+
+export async function takePendingGrant<T>(key: string, kv: KVNamespace): Promise<T> {
+  const stored = await kv.get(`oauth:pending:${key}`);
+  if (!stored) throw new OAuthError("invalid_request", "Authorization expired or already completed; start again", 400);
+  await kv.delete(`oauth:pending:${key}`);
+  return JSON.parse(stored) as T;
+}
+
 export async function bindStateToSession(stateToken: string): Promise<BindStateResult> {
   const encoder = new TextEncoder();
   const hashBuffer = await crypto.subtle.digest("SHA-256", encoder.encode(stateToken));
@@ -159,14 +173,20 @@ export async function validateOAuthState(request: Request, kv: KVNamespace): Pro
   return { oauthReqInfo, clearCookie };
 }
 
-export async function isClientApproved(request: Request, clientId: string, cookieSecret: string): Promise<boolean> {
+/** Scopes the user approved for this client earlier, or null if it was never approved. */
+export async function getApprovedScopes(request: Request, clientId: string, cookieSecret: string): Promise<string[] | null> {
   const approvedClients = await getApprovedClientsFromCookie(request, cookieSecret);
-  return approvedClients?.includes(clientId) ?? false;
+  return approvedClients?.[clientId] ?? null;
 }
 
-export async function addApprovedClient(request: Request, clientId: string, cookieSecret: string): Promise<string> {
-  const existing = (await getApprovedClientsFromCookie(request, cookieSecret)) || [];
-  const updated = Array.from(new Set([...existing, clientId]));
+export async function addApprovedClient(
+  request: Request,
+  clientId: string,
+  scopes: string[],
+  cookieSecret: string,
+): Promise<string> {
+  const existing = (await getApprovedClientsFromCookie(request, cookieSecret)) || {};
+  const updated = { ...existing, [clientId]: scopes };
   const payload = JSON.stringify(updated);
   const signature = await signData(payload, cookieSecret);
   return `__Host-APPROVED_CLIENTS=${signature}.${btoa(payload)}; HttpOnly; Secure; Path=/; SameSite=Lax; Max-Age=2592000`;
@@ -175,22 +195,14 @@ export async function addApprovedClient(request: Request, clientId: string, cook
 export interface ApprovalDialogOptions {
   client: ClientInfo | null;
   server: { name: string; logo?: string; description?: string };
+  /** Permissions to approve, shown as checkboxes named "scope". */
+  scopes?: Array<{ name: string; description: string; checked: boolean }>;
   state: Record<string, unknown>;
   csrfToken: string;
   setCookie: string;
 }
 
-export function renderApprovalDialog(request: Request, options: ApprovalDialogOptions): Response {
-  const { client, server, state, csrfToken, setCookie } = options;
-  const encodedState = btoa(JSON.stringify(state));
-  const serverName = sanitizeText(server.name);
-  const clientName = client?.clientName ? sanitizeText(client.clientName) : "Unknown MCP Client";
-  const serverDescription = server.description ? sanitizeText(server.description) : "";
-
-  const html = `<!DOCTYPE html>
-<html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1">
-<title>${clientName} | Authorization Request</title>
-<style>
+const DIALOG_STYLES = `
   body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; background: #f9fafb; margin: 0; padding: 2rem 1rem; color: #333; }
   .card { max-width: 480px; margin: 0 auto; background: #fff; border-radius: 12px; box-shadow: 0 8px 36px rgba(0,0,0,0.1); padding: 2rem; }
   h1 { font-size: 1.3rem; font-weight: 500; text-align: center; margin-bottom: 0.5rem; }
@@ -200,7 +212,30 @@ export function renderApprovalDialog(request: Request, options: ApprovalDialogOp
   .btn { padding: 0.75rem 1.5rem; border-radius: 6px; font-size: 1rem; cursor: pointer; border: none; }
   .btn-primary { background: #0070f3; color: #fff; }
   .btn-secondary { background: transparent; border: 1px solid #e5e7eb; }
-</style></head><body>
+  .scopes { border: 1px solid #e5e7eb; border-radius: 8px; padding: 0.75rem 1rem; margin-top: 1.5rem; max-height: 18rem; overflow-y: auto; }
+  .scopes legend { font-weight: 500; padding: 0 0.25rem; }
+  .scopes label { display: block; margin: 0.5rem 0; }
+  .scopes small { display: block; color: #666; margin-left: 1.5rem; }
+  .notice { background: #fff7ed; border: 1px solid #fed7aa; border-radius: 8px; padding: 0.75rem 1rem; color: #9a3412; }
+`;
+
+const DIALOG_HEADERS = {
+  "Content-Type": "text/html; charset=utf-8",
+  "Content-Security-Policy": "frame-ancestors 'none'",
+  "X-Frame-Options": "DENY",
+};
+
+export function renderApprovalDialog(request: Request, options: ApprovalDialogOptions): Response {
+  const { client, server, scopes, state, csrfToken, setCookie } = options;
+  const encodedState = btoa(JSON.stringify(state));
+  const serverName = sanitizeText(server.name);
+  const clientName = client?.clientName ? sanitizeText(client.clientName) : "Unknown MCP Client";
+  const serverDescription = server.description ? sanitizeText(server.description) : "";
+
+  const html = `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${clientName} | Authorization Request</title>
+<style>${DIALOG_STYLES}</style></head><body>
 <div class="card">
   <h1>${serverName}</h1>
   ${serverDescription ? `<p>${serverDescription}</p>` : ""}
@@ -209,6 +244,16 @@ export function renderApprovalDialog(request: Request, options: ApprovalDialogOp
   <form method="POST" action="/authorize">
     <input type="hidden" name="state" value="${encodedState}">
     <input type="hidden" name="csrf_token" value="${csrfToken}">
+    ${
+      scopes?.length
+        ? `<fieldset class="scopes"><legend>Permissions</legend>${scopes
+            .map(
+              (scope) =>
+                `<label><input type="checkbox" name="scope" value="${sanitizeText(scope.name)}"${scope.checked ? " checked" : ""}> ${sanitizeText(scope.name)}<small>${sanitizeText(scope.description)}</small></label>`,
+            )
+            .join("")}</fieldset>`
+        : ""
+    }
     <div class="actions">
       <button type="button" class="btn btn-secondary" onclick="window.close()">Cancel</button>
       <button type="submit" class="btn btn-primary">Approve</button>
@@ -216,19 +261,67 @@ export function renderApprovalDialog(request: Request, options: ApprovalDialogOp
   </form>
 </div></body></html>`;
 
-  return new Response(html, {
-    headers: {
-      "Content-Type": "text/html; charset=utf-8",
-      "Content-Security-Policy": "frame-ancestors 'none'",
-      "X-Frame-Options": "DENY",
-      "Set-Cookie": setCookie,
-    },
-  });
+  return new Response(html, { headers: { ...DIALOG_HEADERS, "Set-Cookie": setCookie } });
+}
+
+export interface ResourcePickerOptions {
+  server: { name: string };
+  workspaceName: string;
+  dataSources: Array<{ id: string; title: string }>;
+  pages: Array<{ id: string; title: string }>;
+  /** Shown above the choices, e.g. when the lists couldn't be loaded. */
+  notice?: string;
+  /** Key of the pending grant, posted back with the selection. */
+  pendingKey: string;
+  csrfToken: string;
+  setCookies: string[];
+}
+
+// Second consent step, after Notion returns: limit the grant to some of the data sources
+// and pages shared with the integration, or allow all of them.
+export function renderResourcePicker(request: Request, options: ResourcePickerOptions): Response {
+  const { server, workspaceName, dataSources, pages, notice, pendingKey, csrfToken, setCookies } = options;
+  const checkbox = (name: string, item: { id: string; title: string }) =>
+    `<label><input type="checkbox" name="${name}" value="${sanitizeText(item.id)}"> ${sanitizeText(item.title)}</label>`;
+  const group = (legend: string, name: string, items: Array<{ id: string; title: string }>) =>
+    items.length > 0 ? `<fieldset class="scopes"><legend>${legend}</legend>${items.map((item) => checkbox(name, item)).join("")}</fieldset>` : "";
+
+  const html = `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${sanitizeText(server.name)} | Choose what to share</title>
+<style>${DIALOG_STYLES}</style></head><body>
+<div class="card">
+  <h1>${sanitizeText(server.name)}</h1>
+  <p>Choose what this client may use in <strong>${sanitizeText(workspaceName || "your workspace")}</strong>. Rows, sub-pages and content inside a selected item are included.</p>
+  ${notice ? `<p class="notice">${sanitizeText(notice)}</p>` : ""}
+  <form method="POST" action="/callback">
+    <input type="hidden" name="pending" value="${sanitizeText(pendingKey)}">
+    <input type="hidden" name="csrf_token" value="${csrfToken}">
+    <fieldset class="scopes"><legend>Access</legend>
+      <label><input type="radio" name="access" value="all" checked> Everything shared with the integration</label>
+      <label><input type="radio" name="access" value="selected"> Only the items selected below</label>
+    </fieldset>
+    ${group("Databases", "data_source", dataSources)}
+    ${group("Pages", "page", pages)}
+    <div class="actions">
+      <button type="submit" class="btn btn-primary">Continue</button>
+    </div>
+  </form>
+</div></body></html>`;
+
+  const headers = new Headers(DIALOG_HEADERS);
+  for (const cookie of setCookies) headers.append("Set-Cookie", cookie);
+  return new Response(html, { headers });
 }
 
 // --- Internal helpers ---
 
-async function getApprovedClientsFromCookie(request: Request, cookieSecret: string): Promise<string[] | null> {
+// Maps client IDs to their approved scopes. Cookies from before scopes were recorded hold
+// a plain list of client IDs; those clients get no scopes, so the dialog is shown again.
+async function getApprovedClientsFromCookie(
+  request: Request,
+  cookieSecret: string,
+): Promise<Record<string, string[]> | null> {
   const cookieHeader = request.headers.get("Cookie");
   if (!cookieHeader) return null;
 
@@ -247,8 +340,13 @@ async function getApprovedClientsFromCookie(request: Request, cookieSecret: stri
 
   try {
     const approvedClients = JSON.parse(payload);
-    if (!Array.isArray(approvedClients) || !approvedClients.every((item) => typeof item === "string")) return null;
-    return approvedClients as string[];
+    if (Array.isArray(approvedClients)) {
+      if (!approvedClients.every((item) => typeof item === "string")) return null;
+      return Object.fromEntries(approvedClients.map((id: string) => [id, []]));
+    }
+    if (typeof approvedClients !== "object" || approvedClients === null) return null;
+    const valid = Object.values(approvedClients).every((scopes) => Array.isArray(scopes) && scopes.every((s) => typeof s === "string"));
+    return valid ? (approvedClients as Record<string, string[]>) : null;
   } catch {
     return null;
   }
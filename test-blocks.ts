@@ -0,0 +1,138 @@
+import { appendBlockChildren } from "./src/notion";
+
+// A stand-in for the Notion block children endpoints: it stores what's appended,
+// lists it back, and rejects requests nested deeper than Notion allows.
+const MAX_NESTING_LEVELS = 2;
+const store = new Map<string, any[]>();
+const requests: Array<{ blockId: string; children: any[] }> = [];
+let nextId = 0;
+
+function depth(blocks: any[]): number {
+  return Math.max(0, ...blocks.map((b) => {
+    const children = b[b.type]?.children ?? [];
+    return children.length > 0 ? 1 + depth(children) : 0;
+  }));
+}
+
+function create(parentId: string, blocks: any[]): any[] {
+  const created = blocks.map((b) => {
+    const id = `block-${++nextId}`;
+    const { children = [], ...content } = b[b.type] ?? {};
+    create(id, children);
+    return { object: "block", id, type: b.type, has_children: children.length > 0, [b.type]: content };
+  });
+  store.set(parentId, [...(store.get(parentId) ?? []), ...created]);
+  return created;
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+}
+
+globalThis.fetch = (async (input: string, init?: RequestInit) => {
+  const match = new URL(input).pathname.match(/^\/v1\/blocks\/([^/]+)\/children$/);
+  if (!match) return json({ object: "error", code: "object_not_found", message: `Unexpected ${input}` }, 404);
+  const blockId = match[1];
+
+  if (init?.method === "PATCH") {
+    const { children } = JSON.parse(init.body as string);
+    requests.push({ blockId, children });
+    if (depth(children) > MAX_NESTING_LEVELS) {
+      return json({ object: "error", code: "validation_error", message: "body.children should be nested at most 2 levels" }, 400);
+    }
+    return json({ results: create(blockId, children) });
+  }
+  return json({ results: store.get(blockId) ?? [], has_more: false, next_cursor: null });
+}) as typeof fetch;
+
+// Reads the stored tree back as nested { type, children } objects.
+function tree(blockId: string): any[] {
+  return (store.get(blockId) ?? []).map((b) => {
+    const children = tree(b.id);
+    return children.length > 0 ? { type: b.type, children } : { type: b.type };
+  });
+}
+
+function shape(blocks: any[]): any[] {
+  return blocks.map((b) => {
+    const children = b[b.type]?.children ?? [];
+    return children.length > 0 ? { type: b.type, children: shape(children) } : { type: b.type };
+  });
+}
+
+function block(type: string, children: any[] = []): any {
+  return { object: "block", type, [type]: type === "column_list" || type === "column" ? { children } : { rich_text: type, children } };
+}
+
+let passed = 0;
+let failed = 0;
+
+async function test(name: string, fn: () => Promise<void>) {
+  store.clear();
+  requests.length = 0;
+  try {
+    await fn();
+    passed++;
+    console.log(`  ✅ ${name}`);
+  } catch (err: any) {
+    failed++;
+    console.log(`  ❌ ${name}`);
+    console.log(`     ${err.message?.slice(0, 200)}`);
+  }
+}
+
+function expectEqual(actual: unknown, expected: unknown) {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    throw new Error(`Expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+  }
+}
+
+async function expectAppended(blocks: any[], requestCount: number) {
+  await appendBlockChildren("test-token", "page", blocks);
+  expectEqual(tree("page"), shape(blocks));
+  expectEqual(requests.length, requestCount);
+}
+
+function columns() {
+  return block("column_list", [block("column", [block("paragraph")]), block("column", [block("paragraph")])]);
+}
+
+async function main() {
+  console.log("\n🔍 Testing block appends\n");
+
+  await test("sends columns at the top level in one request", () => expectAppended([columns()], 1));
+
+  await test("appends columns inside a toggle in a second request", () =>
+    expectAppended([block("toggle", [columns()])], 2),
+  );
+
+  await test("keeps siblings after columns inside a toggle in order", () =>
+    expectAppended([block("toggle", [block("paragraph"), columns(), block("paragraph")])], 2),
+  );
+
+  await test("appends columns inside a nested list item under their parent", () =>
+    expectAppended([block("bulleted_list_item", [block("bulleted_list_item", [columns()])])], 2),
+  );
+
+  await test("sends two levels of ordinary nesting in one request", () =>
+    expectAppended([block("toggle", [block("bulleted_list_item", [block("paragraph")])])], 1),
+  );
+
+  await test("appends a third level of ordinary nesting afterwards", () =>
+    expectAppended([block("toggle", [block("toggle", [block("toggle", [block("paragraph")])])])], 2),
+  );
+
+  printSummary();
+}
+
+function printSummary() {
+  console.log(`\n${"─".repeat(40)}`);
+  console.log(`Results: ${passed} passed, ${failed} failed, ${passed + failed} total`);
+  console.log(`${"─".repeat(40)}\n`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch((err) => {
+  console.error("Fatal error:", err);
+  process.exit(1);
+});
@@ -5,6 +5,7 @@ import {
   createPage,
   createDatabase,
   archiveDatabase,
+  resolveDatabaseTarget,
   archivePage,
   normalizeId,
 } from "./src/notion";
@@ -322,7 +323,8 @@ async function cleanup() {
 
   if (testDbContainerId) {
     await test("archive test database", async () => {
-      const result = await archiveDatabase(TOKEN, testDbContainerId!);
+      const target = await resolveDatabaseTarget(TOKEN, testDbContainerId!);
+      const result = await archiveDatabase(TOKEN, target);
       console.log(`     Archived database: ${result.id}`);
     });
   }
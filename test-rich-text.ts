@@ -0,0 +1,88 @@
+import { formatRichText, normalizeBlockRichText, parseRichTextInput } from "./src/rich-text";
+
+// Strings that Markdown parsing would change: emphasis markers, inline equations, escapes.
+const LITERALS = ["2*3*4", "x = $a+b$", "**not bold**", "snake_case_name", "[not a link](https://example.com)", "C:\\path\\to"];
+
+let passed = 0;
+let failed = 0;
+
+async function test(name: string, fn: () => Promise<void> | void) {
+  try {
+    await fn();
+    passed++;
+    console.log(`  ✅ ${name}`);
+  } catch (err: any) {
+    failed++;
+    console.log(`  ❌ ${name}`);
+    console.log(`     ${err.message?.slice(0, 200)}`);
+  }
+}
+
+// What Notion returns for a written rich text array: each item gains its plain_text.
+function stored(richText: any[]): any[] {
+  return richText.map((t) => ({ ...t, plain_text: t.type === "equation" ? t.equation.expression : t.text.content }));
+}
+
+function expectEqual(actual: unknown, expected: unknown) {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    throw new Error(`Expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+  }
+}
+
+async function main() {
+  console.log("\n🔍 Testing rich text round trips\n");
+
+  for (const text of LITERALS) {
+    await test(`plain string round-trips: ${text}`, () => {
+      const richText = parseRichTextInput(text);
+      expectEqual(richText.map((t) => t.annotations ?? {}), richText.map(() => ({})));
+      expectEqual(formatRichText(stored(richText), "plain"), text);
+    });
+  }
+
+  await test("plain block text is written literally", () => {
+    const block = normalizeBlockRichText({ type: "paragraph", paragraph: { rich_text: "2*3*4" } });
+    expectEqual(formatRichText(stored(block.paragraph.rich_text), "plain"), "2*3*4");
+  });
+
+  await test("empty plain string writes no rich text", () => expectEqual(parseRichTextInput(""), []));
+
+  await test("long plain strings split into 2000-character text objects", () => {
+    const text = "a*b ".repeat(1200);
+    const richText = parseRichTextInput(text);
+    expectEqual(richText.map((t) => t.text.content.length), [2000, 2000, 800]);
+    expectEqual(formatRichText(stored(richText), "plain"), text);
+  });
+
+  await test("markdown strings are parsed when requested", () => {
+    const richText = parseRichTextInput("See **this** [doc](https://example.com)", "markdown");
+    expectEqual(formatRichText(stored(richText), "plain"), "See this doc");
+    expectEqual(richText.find((t) => t.text.content === "this")?.annotations?.bold, true);
+    expectEqual(richText.find((t) => t.text.content === "doc")?.text.link?.url, "https://example.com");
+  });
+
+  await test("markdown round-trips when read as markdown", () => {
+    const markdown = "Hello **bold** and *italic* with `code`";
+    expectEqual(formatRichText(parseRichTextInput(markdown, "markdown"), "markdown"), markdown);
+  });
+
+  await test("span arrays are written as given either way", () => {
+    const spans = [{ text: "2*3*4", bold: true }];
+    expectEqual(parseRichTextInput(spans), parseRichTextInput(spans, "markdown"));
+    expectEqual(formatRichText(stored(parseRichTextInput(spans)), "plain"), "2*3*4");
+  });
+
+  printSummary();
+}
+
+function printSummary() {
+  console.log(`\n${"─".repeat(40)}`);
+  console.log(`Results: ${passed} passed, ${failed} failed, ${passed + failed} total`);
+  console.log(`${"─".repeat(40)}\n`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch((err) => {
+  console.error("Fatal error:", err);
+  process.exit(1);
+});
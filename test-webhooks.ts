@@ -0,0 +1,75 @@
+import { verifySignature } from "./src/webhook-signature";
+
+// Fixture: a page.properties_updated event in the shape Notion delivers it, with the
+// X-Notion-Signature header computed for it under a test verification token. The body
+// must stay byte-for-byte as is: the signature covers the raw text, not the parsed JSON.
+const VERIFICATION_TOKEN = "secret_tT2Jp4Y7wQb9mX3kR8vL1nZ6cF0dH5sA";
+const EVENT_BODY =
+  '{"id":"367cba44-b6f3-4c92-81e7-6a2e9659efd4","timestamp":"2026-10-12T09:41:07.372Z","workspace_id":"13950b26-c203-4f3b-b97d-93ec06319565","workspace_name":"Acme","subscription_id":"29d75c0d-5546-4414-8459-7b7a92f1fc4b","integration_id":"0ef104cd-477e-4a68-8b44-1d0ad3f27dd0","type":"page.properties_updated","authors":[{"id":"c7c11cca-1d73-471d-9b6e-bdef51470190","type":"person"}],"accessible_by":[{"id":"556a1abf-4f08-40c6-878a-75890d2a88ba","type":"person"}],"attempt_number":1,"entity":{"id":"153104cd-477e-809d-8dc4-ff2d96ae3090","type":"page"},"data":{"parent":{"id":"13950b26-c203-4f3b-b97d-93ec06319565","type":"space"},"updated_properties":["XGe%40","bDf%5B"]}}';
+const EVENT_SIGNATURE = "sha256=1f9b44d00d6fe45c091762801427fdd3e97a05a26060303b4f756e8b0c6a317d";
+
+let passed = 0;
+let failed = 0;
+
+async function test(name: string, fn: () => Promise<void>) {
+  try {
+    await fn();
+    passed++;
+    console.log(`  ✅ ${name}`);
+  } catch (err: any) {
+    failed++;
+    console.log(`  ❌ ${name}`);
+    console.log(`     ${err.message?.slice(0, 200)}`);
+  }
+}
+
+async function expectSignature(body: string, signature: string, secret: string, expected: boolean) {
+  const valid = await verifySignature(secret, body, signature);
+  if (valid !== expected) throw new Error(`Expected ${expected ? "valid" : "invalid"}, got ${valid ? "valid" : "invalid"}`);
+}
+
+async function main() {
+  console.log("\n🔍 Testing Notion webhook signatures\n");
+
+  await test("accepts the fixture event", () => expectSignature(EVENT_BODY, EVENT_SIGNATURE, VERIFICATION_TOKEN, true));
+
+  await test("accepts an upper-case hex signature", () =>
+    expectSignature(EVENT_BODY, `sha256=${EVENT_SIGNATURE.slice("sha256=".length).toUpperCase()}`, VERIFICATION_TOKEN, true),
+  );
+
+  await test("rejects a tampered payload", () =>
+    expectSignature(EVENT_BODY.replace('"type":"page.properties_updated"', '"type":"page.deleted"'), EVENT_SIGNATURE, VERIFICATION_TOKEN, false),
+  );
+
+  await test("rejects a re-serialized payload", () =>
+    expectSignature(JSON.stringify(JSON.parse(EVENT_BODY), null, 2), EVENT_SIGNATURE, VERIFICATION_TOKEN, false),
+  );
+
+  await test("rejects a tampered signature", () =>
+    expectSignature(EVENT_BODY, EVENT_SIGNATURE.replace(/.$/, (c) => (c === "0" ? "1" : "0")), VERIFICATION_TOKEN, false),
+  );
+
+  await test("rejects the wrong verification token", () =>
+    expectSignature(EVENT_BODY, EVENT_SIGNATURE, "secret_not-the-subscription-token", false),
+  );
+
+  await test("rejects a signature without the sha256= prefix", () =>
+    expectSignature(EVENT_BODY, EVENT_SIGNATURE.slice("sha256=".length), VERIFICATION_TOKEN, false),
+  );
+
+  await test("rejects a malformed signature", () => expectSignature(EVENT_BODY, "sha256=not-hex", VERIFICATION_TOKEN, false));
+
+  printSummary();
+}
+
+function printSummary() {
+  console.log(`\n${"─".repeat(40)}`);
+  console.log(`Results: ${passed} passed, ${failed} failed, ${passed + failed} total`);
+  console.log(`${"─".repeat(40)}\n`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch((err) => {
+  console.error("Fatal error:", err);
+  process.exit(1);
+});
@@ -4,10 +4,12 @@ declare namespace Cloudflare {
 	interface Env {
 		OAUTH_KV: KVNamespace;
 		MCP_OBJECT: DurableObjectNamespace<import("./src/index").NotionMCP>;
+		NOTION_WEBHOOKS: DurableObjectNamespace<import("./src/index").NotionWebhooks>;
 		ASSETS: Fetcher;
 		NOTION_OAUTH_CLIENT_ID: string;
 		NOTION_OAUTH_CLIENT_SECRET: string;
 		COOKIE_ENCRYPTION_KEY: string;
+		NOTION_WEBHOOK_VERIFICATION_TOKEN: string;
 	}
 }
 interface Env extends Cloudflare.Env {}